@@ -1,4 +1,14 @@
 import { type PageDef, type PageKind, forceNoindex } from '~/schema/page.schema'
+import {
+  EXPERIMENT_COOKIE_MAX_AGE,
+  EXPERIMENT_VARY,
+  getExperimentCookieName
+} from '~/schema/page.experiments'
+import {
+  PREVIEW_TOKEN_PARAM,
+  getAccessCookieName,
+  readAccessTokenExpiry
+} from '~/schema/page.access'
 
 // =============================================================================
 // PAGE LOADER COMPOSABLE (SSR + Client)
@@ -8,6 +18,8 @@ export interface LoadPageParams {
   kind: PageKind
   slug: string
   locale: string
+  /** Signed preview token (?t=) for protected p/demo pages */
+  token?: string
 }
 
 // Re-export forceNoindex for use in routes
@@ -20,6 +32,61 @@ if (import.meta.dev && import.meta.server && !g.__pageLoaderLogged) {
   console.log('[PageLoader] SSR using request-bound fetch (useRequestFetch)')
 }
 
+/**
+ * Persist A/B experiment assignments on the page response (SSR)
+ * The request-bound fetch calls the API handler directly, so its Set-Cookie
+ * never reaches the browser — without this, buckets would not be sticky.
+ */
+function persistExperimentCookies(experiments: Record<string, string>): void {
+  for (const [experiment, variant] of Object.entries(experiments)) {
+    const cookie = useCookie(getExperimentCookieName(experiment), {
+      maxAge: EXPERIMENT_COOKIE_MAX_AGE,
+      path: '/',
+      sameSite: 'lax'
+    })
+    cookie.value = variant
+  }
+}
+
+/**
+ * Persist a valid preview link on the page response (SSR), like experiment cookies
+ * The server accepted the token, so its own expiry is the cookie lifetime.
+ */
+function persistAccessCookie(params: LoadPageParams, token: string): void {
+  const expiresAt = readAccessTokenExpiry(token)
+  if (!expiresAt) return
+  const cookie = useCookie(getAccessCookieName(params), {
+    maxAge: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: !import.meta.dev
+  })
+  cookie.value = token
+}
+
+/**
+ * Apply the page's cache policy to the SSR response (API headers stay on the
+ * request-bound fetch, like its cookies): a visitor-dependent page must not be
+ * stored by a shared cache, and experiment variants vary with the cookies.
+ */
+function persistCacheHeaders(page: PageDef): void {
+  if (page.cacheControl) {
+    useResponseHeader('Cache-Control').value = page.cacheControl
+  }
+  if (page.experiments) {
+    useResponseHeader('Vary').value = EXPERIMENT_VARY
+  }
+}
+
+/**
+ * Read the signed preview token from a route query (?t=)
+ */
+export function getPreviewToken(query: Record<string, unknown>): string | undefined {
+  const token = query[PREVIEW_TOKEN_PARAM]
+  return typeof token === 'string' && token ? token : undefined
+}
+
 /**
  * Load a page definition
  *
@@ -27,25 +94,40 @@ if (import.meta.dev && import.meta.server && !g.__pageLoaderLogged) {
  * - Prevents external HTTP calls (direct handler invocation)
  * - Forwards cookies and headers from the original request
  * - Works identically on client (standard fetch behavior)
+ * - A/B variants are picked by the server (sticky cookie), never on the client
  */
 export function usePageLoader(params: LoadPageParams) {
-  const { kind, slug, locale } = params
+  const { kind, slug, locale, token } = params
   const cacheKey = `page-${kind}-${slug}-${locale}`
 
   // Request-bound fetch: SSR uses internal handler, client uses HTTP
   const requestFetch = useRequestFetch()
+  const nuxtApp = useNuxtApp()
 
   return useAsyncData(
     cacheKey,
     async () => {
       try {
         const page = await requestFetch<PageDef>('/api/__page__/get', {
-          query: { kind, slug, locale }
+          query: { kind, slug, locale, ...(token && { [PREVIEW_TOKEN_PARAM]: token }) }
         })
+        if (import.meta.server && page.experiments) {
+          nuxtApp.runWithContext(() => persistExperimentCookies(page.experiments!))
+        }
+        if (import.meta.server && token) {
+          nuxtApp.runWithContext(() => persistAccessCookie(params, token))
+        }
+        if (import.meta.server) {
+          nuxtApp.runWithContext(() => persistCacheHeaders(page))
+        }
         return page
-      } catch {
-        // Return null; caller decides (loadPageOrThrow throws 404)
-        return null
+      } catch (err) {
+        // Not found: return null; caller decides (loadPageOrThrow throws 404)
+        // Anything else (e.g. 500 invalid props) is kept as the asyncData error
+        if ((err as { statusCode?: number }).statusCode === 404) {
+          return null
+        }
+        throw err
       }
     },
     {
@@ -57,11 +139,23 @@ export function usePageLoader(params: LoadPageParams) {
 
 /**
  * Type-safe wrapper that throws 404 if page not found
+ * Other API errors (e.g. 500 invalid props, 401/410 preview access) keep their
+ * status code and data (error.vue renders the password form / "link expired")
  */
 export async function loadPageOrThrow(params: LoadPageParams): Promise<PageDef> {
   const { data, error } = await usePageLoader(params)
 
-  if (error.value || !data.value) {
+  if (error.value) {
+    // error.value.data is the API error body; forward its own `data` (e.g. { access })
+    const apiError = error.value.data as { data?: unknown } | undefined
+    throw createError({
+      statusCode: error.value.statusCode ?? 500,
+      statusMessage: error.value.statusMessage ?? 'Invalid page configuration',
+      data: apiError?.data
+    })
+  }
+
+  if (!data.value) {
     throw createError({
       statusCode: 404,
       statusMessage: `Page not found: ${params.kind}/${params.slug}`
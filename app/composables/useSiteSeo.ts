@@ -95,6 +95,14 @@ type PageSeoInput = {
    * Call checkPageExists() to verify translations before setting alternates.
    */
   alternates?: PageAlternate[]
+  /**
+   * Locale of the content served (page.contentLocale), defaults to the route locale
+   * On a fallback (page not translated, served from another locale):
+   * - canonical points to the page in that locale (no duplicate self-canonical)
+   * - no hreflang: the fallback URL is not a translation
+   * Content-Language and og:locale always follow the locale served.
+   */
+  contentLocale?: string
 }
 
 // =============================================================================
@@ -168,14 +176,20 @@ export function useSiteSeo() {
       jsonLd = null,
       publishedTime,
       modifiedTime,
-      alternates
+      alternates,
+      contentLocale = locale.value
     } = input
 
     const fullTitle = `${title} | ${siteConfig.name}`
     const ogImage = image
       ? toAbsoluteUrl(siteUrl, image)
       : toAbsoluteUrl(siteUrl, siteConfig.defaultOgImage)
-    const canonical = toAbsoluteUrl(siteUrl, route.path)
+    // Fallback render: canonical = same page in the locale actually served
+    const isFallback = contentLocale !== locale.value
+    const canonicalPath = isFallback
+      ? switchLocalePath(route.path, locale.value, contentLocale, defaultLocale, normalizedLocales)
+      : route.path
+    const canonical = toAbsoluteUrl(siteUrl, canonicalPath)
 
     // Force noindex in non-production or if explicitly set
     const isProduction = import.meta.env?.PROD ?? process.env.NODE_ENV === 'production'
@@ -187,10 +201,11 @@ export function useSiteSeo() {
     // -------------------------------------------------------------------------
     // If `alternates` is provided: use only those (verified to exist)
     // If not provided: NO hreflang (safe default, prevents broken links)
+    // Fallback render: NO hreflang (the canonical URL carries them)
     // -------------------------------------------------------------------------
     const alternateLinks: Array<{ rel: string; hreflang: string; href: string }> = []
 
-    if (alternates && alternates.length > 0) {
+    if (!isFallback && alternates && alternates.length > 0) {
       // Build alternates only for verified translations
       for (const alt of alternates) {
         alternateLinks.push({
@@ -212,10 +227,15 @@ export function useSiteSeo() {
     }
     // If no alternates provided: skip hreflang entirely (safe default)
 
-    // ogLocale from localeMeta (replace - with _)
-    const currentLocaleMeta = localeMeta[locale.value] || locale.value
+    // ogLocale from localeMeta (replace - with _), locale of the content served
+    const currentLocaleMeta = localeMeta[contentLocale] || contentLocale
     const ogLocale = currentLocaleMeta.replace('-', '_')
 
+    // Content-Language header of the SSR response
+    if (import.meta.server) {
+      useResponseHeader('Content-Language').value = currentLocaleMeta
+    }
+
     // SEO Meta
     useSeoMeta({
       title: fullTitle,
@@ -232,7 +252,10 @@ export function useSiteSeo() {
       twitterTitle: fullTitle,
       twitterDescription: description,
       twitterImage: ogImage,
-      twitterSite: siteConfig.twitterHandle
+      twitterSite: siteConfig.twitterHandle,
+      // article:published_time / article:modified_time (omitted when unknown)
+      articlePublishedTime: publishedTime,
+      articleModifiedTime: modifiedTime || publishedTime
     })
 
     // Head: canonical + alternates + JSON-LD
@@ -0,0 +1,100 @@
+/**
+ * catalogMeta.ts
+ *
+ * CATALOG METADATA — What sections and shells are for, declared in their manifests
+ *
+ * Every manifest entry carries:
+ * - description: one line, what it renders
+ * - category: sections by purpose (hero, faq...), shells by style (standard, minimal, branded)
+ * - tags: free keywords for search (lowercase, dashes)
+ * - packs: packs it is styled for (omitted = works with every pack)
+ * - deprecated: why / what to use instead (omitted = current)
+ *
+ * Used by:
+ * - app/sections/sections.manifest.ts, app/shells/shells.manifest.ts (declarations)
+ * - scripts/build-catalog.ts (public/catalog.json, rejects invalid metadata)
+ * - app/schema/page.validate.ts (deprecated / pack mismatch warnings)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { isKnownPack, type PackKey } from '../packs/packs.manifest'
+
+// =============================================================================
+// CATEGORIES
+// =============================================================================
+
+export const SECTION_CATEGORIES = [
+  'hero',
+  'features',
+  'social-proof',
+  'results',
+  'faq',
+  'contact',
+  'layout'
+] as const
+export type SectionCategory = (typeof SECTION_CATEGORIES)[number]
+
+export const SHELL_CATEGORIES = ['standard', 'minimal', 'branded'] as const
+export type ShellCategory = (typeof SHELL_CATEGORIES)[number]
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CatalogMeta<Category extends string = string> {
+  /** One line: what it renders */
+  description: string
+  category: Category
+  /** Search keywords (lowercase, digits, dashes) */
+  tags: string[]
+  /** Packs it is styled for (omitted = every pack) */
+  packs?: PackKey[]
+  /** Why it should no longer be used / what replaces it */
+  deprecated?: string
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+/**
+ * Check metadata of one entry
+ *
+ * @returns Error message, or null if valid
+ */
+export function getCatalogMetaError(
+  meta: CatalogMeta,
+  categories: readonly string[]
+): string | null {
+  if (!meta.description?.trim()) {
+    return 'description is required'
+  }
+  if (!categories.includes(meta.category)) {
+    return `unknown category "${meta.category}" (known: ${categories.join(', ')})`
+  }
+  const badTag = meta.tags.find((tag) => !TAG_PATTERN.test(tag))
+  if (badTag !== undefined) {
+    return `invalid tag "${badTag}" (lowercase, digits, dashes)`
+  }
+  if (new Set(meta.tags).size !== meta.tags.length) {
+    return 'duplicate tags'
+  }
+  const badPack = meta.packs?.find((pack) => !isKnownPack(pack))
+  if (badPack !== undefined) {
+    return `unknown pack "${badPack}"`
+  }
+  return null
+}
+
+/**
+ * Whether an entry is meant for a pack (entries without `packs` fit every pack)
+ *
+ * @param pack - Effective pack (section.pack ?? page.packKey), undefined = no pack
+ */
+export function fitsPack(meta: Pick<CatalogMeta, 'packs'>, pack: string | undefined): boolean {
+  if (!meta.packs) return true
+  return pack !== undefined && (meta.packs as string[]).includes(pack)
+}
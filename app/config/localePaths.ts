@@ -0,0 +1,182 @@
+/**
+ * localePaths.ts
+ *
+ * LOCALE-AWARE PATHS — Single parser for the locale segment of content paths and URLs
+ *
+ * Locales are the codes of runtimeConfig.public.locales (NUXT_PUBLIC_LOCALES), region
+ * locales included (fr-CA, pt-BR). Slugs may be nested (services/plumbing/paris).
+ *
+ * Content paths (Nuxt Content `_path`, one directory per locale):
+ *   /{locale}/pages/{kind}/{slug...}   (index.yaml → /{locale}/pages/{kind})
+ *   /{locale}/blog/{slug...}
+ *   /{locale}/partials/{name}
+ *
+ * Nuxt Content lowercases `_path` (content/fr-CA/... → /fr-ca/...): builders use
+ * toContentLocale, parsers match case-insensitively and return the configured code.
+ *
+ * URLs (prefix_except_default): /{slug...} for the default locale, /{locale}/{slug...}
+ * otherwise.
+ *
+ * Fallback chains (runtimeConfig.public.localeFallbacks, NUXT_PUBLIC_LOCALE_FALLBACKS):
+ * a page or partial missing in a locale is served from the next locale of its chain,
+ * e.g. { "fr-CA": ["fr", "en"] } → fr-CA, fr, en, then the default locale.
+ *
+ * Used by:
+ * - server/utils/page-loader.ts, page-list.ts, redirects.ts, page-preview.ts (content paths,
+ *   fallback chains)
+ * - server/utils/sitemap.ts (indexable pages, site/blog entries)
+ * - server/middleware/noindex-headers.ts (URL locale prefix)
+ * - scripts/guard-pages.ts (page files)
+ * - server/utils/blog.ts (article queries), app/pages/blog (article URLs)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { PAGE_KINDS, type PageKind } from './pagePolicy'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A page content path: /{locale}/pages/{kind}/{slug...}
+ */
+export interface PageContentPath {
+  /** Configured locale code (e.g. fr-CA) */
+  locale: string
+  kind: PageKind
+  /** Nested slugs keep their slashes, home page is "index" */
+  slug: string
+}
+
+/**
+ * A blog content path: /{locale}/blog/{slug...}
+ */
+export interface BlogContentPath {
+  locale: string
+  slug: string
+}
+
+/**
+ * Locales and fallbacks (runtimeConfig.public values)
+ */
+export interface LocaleFallbackContext {
+  defaultLocale: string
+  locales: readonly string[]
+  /** Locale → locales to try when it has no translation, in order */
+  localeFallbacks?: Record<string, readonly string[]>
+}
+
+// =============================================================================
+// LOCALES
+// =============================================================================
+
+/**
+ * Locale segment as Nuxt Content writes it in `_path` (lowercased)
+ */
+export function toContentLocale(locale: string): string {
+  return locale.toLowerCase()
+}
+
+/**
+ * Configured locale matching a path segment (case-insensitive)
+ *
+ * @returns Locale code as configured, or null
+ */
+export function matchLocale(
+  segment: string | undefined,
+  locales: readonly string[]
+): string | null {
+  if (!segment) return null
+  const lower = segment.toLowerCase()
+  return locales.find((locale) => locale.toLowerCase() === lower) ?? null
+}
+
+/**
+ * Locales to look up content in for a requested locale: the locale itself, its
+ * configured fallbacks (configured locales only, not followed transitively), then the
+ * default locale
+ */
+export function getLocaleChain(locale: string, ctx: LocaleFallbackContext): string[] {
+  const fallbacks = (ctx.localeFallbacks?.[locale] ?? [])
+    .map((fallback) => matchLocale(fallback, ctx.locales))
+    .filter((fallback): fallback is string => fallback !== null)
+  return Array.from(new Set([locale, ...fallbacks, ctx.defaultLocale]))
+}
+
+// =============================================================================
+// CONTENT PATHS
+// =============================================================================
+
+/**
+ * Split a content path into its locale and the segments after it
+ *
+ * @returns null when the first segment is not a configured locale
+ */
+export function splitContentPath(
+  path: string,
+  locales: readonly string[]
+): { locale: string; segments: string[] } | null {
+  const [first, ...segments] = path.replace(/^\/+/, '').split('/')
+  const locale = matchLocale(first, locales)
+  return locale ? { locale, segments: segments.filter(Boolean) } : null
+}
+
+/**
+ * Content path of a page (home page: slug "" or "index" → the directory path)
+ *
+ * NOTE: Nuxt Content indexes `index.yaml` at the parent directory path.
+ * So `content/fr/pages/site/index.yaml` becomes `_path: /fr/pages/site`
+ */
+export function buildContentPath(kind: PageKind, slug: string, locale: string): string {
+  const base = `/${toContentLocale(locale)}/pages/${kind}`
+  return !slug || slug === 'index' ? base : `${base}/${slug}`
+}
+
+/**
+ * Parse a page content path (index → slug "index"). Inverse of buildContentPath
+ */
+export function parseContentPath(path: string, locales: readonly string[]): PageContentPath | null {
+  const split = splitContentPath(path, locales)
+  if (!split) return null
+
+  const [section, kind, ...slug] = split.segments
+  if (section !== 'pages' || !(PAGE_KINDS as readonly string[]).includes(kind ?? '')) return null
+  return { locale: split.locale, kind: kind as PageKind, slug: slug.join('/') || 'index' }
+}
+
+/**
+ * Parse a blog content path (/{locale}/blog/{slug...}, nested slugs included)
+ */
+export function parseBlogContentPath(
+  path: string,
+  locales: readonly string[]
+): BlogContentPath | null {
+  const split = splitContentPath(path, locales)
+  if (!split) return null
+
+  const [section, ...slug] = split.segments
+  if (section !== 'blog' || slug.length === 0) return null
+  return { locale: split.locale, slug: slug.join('/') }
+}
+
+// =============================================================================
+// URLS
+// =============================================================================
+
+/**
+ * Split a URL path into its locale and the unprefixed path (prefix_except_default)
+ *
+ * /fr-CA/p/offre → { locale: 'fr-CA', path: '/p/offre' }; /p/offre → default locale
+ */
+export function splitLocalePath(
+  path: string,
+  locales: readonly string[],
+  defaultLocale: string
+): { locale: string; path: string } {
+  const [first, ...rest] = path.split(/[?#]/)[0]!.replace(/^\/+/, '').split('/')
+  const locale = matchLocale(first, locales)
+  if (!locale || locale === defaultLocale)
+    return { locale: defaultLocale, path: `/${[first, ...rest].join('/')}` }
+  return { locale, path: `/${rest.join('/')}` }
+}
@@ -10,7 +10,8 @@
  *
  * Used by:
  * - server/utils/page-loader.ts (noindex enforcement)
- * - server/utils/sitemap.ts (sitemap inclusion)
+ * - server/utils/sitemap.ts (sitemap inclusion, sitemap index threshold)
+ * - nuxt.config.ts (sitemapMaxUrls default)
  * - scripts/guard-pages.ts (validation)
  * - docs/scale.md (documentation)
  *
@@ -124,14 +125,15 @@ export function getSitemapKinds(): (PageKind | typeof BLOG_KIND)[] {
 // =============================================================================
 
 /**
- * Scale warning thresholds
- * Used by guard-pages for CI warnings (non-blocking)
+ * Scale thresholds
+ * Used by guard-pages for CI warnings (non-blocking), and by nuxt.config /
+ * server/utils/sitemap.ts for the sitemap index
  */
 export const SCALE_THRESHOLDS = {
   /** Warn if total Page Builder pages exceeds this */
   PAGES_WARNING: 2000,
   /** Warn if blog articles exceeds this */
   BLOG_WARNING: 5000,
-  /** Warn if sitemap entries exceeds this */
-  SITEMAP_WARNING: 10000
+  /** Sitemap entries beyond which /sitemap.xml becomes a sitemap index (NUXT_SITEMAP_MAX_URLS default) */
+  SITEMAP_MAX_URLS: 10000
 } as const
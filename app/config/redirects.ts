@@ -0,0 +1,308 @@
+/**
+ * redirects.ts
+ *
+ * MANAGED REDIRECTS — Page aliases + global redirect map
+ *
+ * Two sources, merged into one table (path → target):
+ *
+ * 1. `aliases:` on a page (old slugs of the same kind), always 301:
+ *
+ *      # content/fr/pages/site/offres.yaml
+ *      aliases: [tarifs, services/prix]     # /tarifs → /offres, /en/tarifs → /en/offres
+ *
+ *    Aliases of a default-locale page also apply to locales without their own
+ *    translation (those locales are served the default-locale page).
+ *
+ * 2. `content/redirects.yaml` (paths WITHOUT locale prefix, applied to every
+ *    locale unless `locale` is set; external targets are kept as-is):
+ *
+ *      redirects:
+ *        - from: /ancienne-offre
+ *          to: /offres
+ *          status: 301          # 301 (default) or 302
+ *        - from: /promo
+ *          to: https://example.com/promo
+ *          status: 302
+ *          locale: fr
+ *
+ * Used by:
+ * - server/utils/redirects.ts + server/middleware/redirects.ts (runtime redirects)
+ * - scripts/guard-pages.ts (chains, loops, collisions with real pages)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+import type { PageKind } from './pagePolicy'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Max redirects followed when flattening a chain */
+export const MAX_REDIRECT_HOPS = 10
+
+/** Alias: a slug of the same kind (lowercase, digits, dashes, nested folders) */
+const ALIAS_PATTERN = /^[a-z0-9][a-z0-9-]*(\/[a-z0-9][a-z0-9-]*)*$/
+
+/** External redirect target */
+const EXTERNAL_URL_PATTERN = /^https?:\/\//
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+export const PageAliasSchema = z
+  .string()
+  .regex(ALIAS_PATTERN, 'Alias must be a slug (lowercase, digits, dashes, "/" for nesting)')
+
+export const RedirectRuleSchema = z.object({
+  from: z.string().startsWith('/', 'from must be a path starting with "/"'),
+  to: z
+    .string()
+    .refine(
+      (to) => to.startsWith('/') || EXTERNAL_URL_PATTERN.test(to),
+      'to must be a path starting with "/" or an http(s) URL'
+    ),
+  status: z
+    .union([z.literal(301), z.literal(302)])
+    .optional()
+    .default(301),
+  locale: z.string().optional()
+})
+
+export const RedirectsFileSchema = z.object({
+  redirects: z.array(RedirectRuleSchema).optional().default([])
+})
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RedirectRule = z.infer<typeof RedirectRuleSchema>
+
+export interface RedirectContext {
+  defaultLocale: string
+  locales: string[]
+}
+
+/**
+ * A page as seen by the redirect table (one per content file)
+ */
+export interface RedirectPage {
+  kind: PageKind
+  slug: string
+  locale: string
+  aliases: string[]
+}
+
+export interface RedirectTarget {
+  to: string
+  status: 301 | 302
+  /** Where the redirect is declared (diagnostics) */
+  source: string
+}
+
+export interface RedirectIssue {
+  severity: 'error' | 'warning'
+  type: 'duplicate' | 'collision' | 'chain' | 'loop'
+  message: string
+}
+
+export interface RedirectTable {
+  redirects: Map<string, RedirectTarget>
+  /** Sources declared more than once (first declaration wins) */
+  duplicates: RedirectIssue[]
+}
+
+// =============================================================================
+// PATHS
+// =============================================================================
+
+/**
+ * Normalize a request path: no query/hash, no trailing slash (except "/")
+ */
+export function normalizeRedirectPath(path: string): string {
+  const cleanPath = path.split('?')[0]?.split('#')[0] ?? ''
+  if (cleanPath !== '/' && cleanPath.endsWith('/')) {
+    return cleanPath.slice(0, -1)
+  }
+  return cleanPath || '/'
+}
+
+/**
+ * Add the locale prefix to an unprefixed path (prefix_except_default)
+ */
+export function localizePath(path: string, locale: string, ctx: RedirectContext): string {
+  const normalized = normalizeRedirectPath(path)
+  if (locale === ctx.defaultLocale) return normalized
+  return normalized === '/' ? `/${locale}` : `/${locale}${normalized}`
+}
+
+/**
+ * Public URL path of a page builder page
+ * - site: /:slug (index → /)
+ * - p/demo: /p/:slug, /demo/:slug
+ */
+export function getPageUrlPath(
+  kind: PageKind,
+  slug: string,
+  locale: string,
+  ctx: RedirectContext
+): string {
+  const isIndex = !slug || slug === 'index'
+  const base = kind === 'site' ? (isIndex ? '/' : `/${slug}`) : `/${kind}/${isIndex ? '' : slug}`
+  return localizePath(base, locale, ctx)
+}
+
+export function isExternalTarget(to: string): boolean {
+  return EXTERNAL_URL_PATTERN.test(to)
+}
+
+// =============================================================================
+// TABLE
+// =============================================================================
+
+/**
+ * Build the redirect table from page aliases and redirects.yaml rules
+ * Page aliases are added first; redirects.yaml cannot override them.
+ */
+export function buildRedirectTable(
+  pages: RedirectPage[],
+  rules: RedirectRule[],
+  ctx: RedirectContext
+): RedirectTable {
+  const redirects = new Map<string, RedirectTarget>()
+  const duplicates: RedirectIssue[] = []
+
+  function add(from: string, target: RedirectTarget): void {
+    const existing = redirects.get(from)
+    if (existing) {
+      duplicates.push({
+        severity: 'error',
+        type: 'duplicate',
+        message: `${from} is declared twice: ${existing.source} and ${target.source}`
+      })
+      return
+    }
+    redirects.set(from, target)
+  }
+
+  // Locales that have their own translation of kind/slug
+  const translated = new Set(pages.map((p) => `${p.locale}:${p.kind}/${p.slug}`))
+
+  for (const page of pages) {
+    // Default-locale aliases also cover locales falling back to this page
+    const locales =
+      page.locale === ctx.defaultLocale
+        ? ctx.locales.filter(
+            (l) => l === ctx.defaultLocale || !translated.has(`${l}:${page.kind}/${page.slug}`)
+          )
+        : [page.locale]
+
+    for (const alias of page.aliases) {
+      for (const locale of locales) {
+        add(getPageUrlPath(page.kind, alias, locale, ctx), {
+          to: getPageUrlPath(page.kind, page.slug, locale, ctx),
+          status: 301,
+          source: `alias "${alias}" of ${page.locale}/${page.kind}/${page.slug}`
+        })
+      }
+    }
+  }
+
+  rules.forEach((rule, index) => {
+    const locales = rule.locale ? [rule.locale] : ctx.locales
+    for (const locale of locales) {
+      add(localizePath(rule.from, locale, ctx), {
+        to: isExternalTarget(rule.to) ? rule.to : localizePath(rule.to, locale, ctx),
+        status: rule.status,
+        source: `redirects.yaml #${index + 1} (${rule.from})`
+      })
+    }
+  })
+
+  return { redirects, duplicates }
+}
+
+/**
+ * Find the final target for a path, following chains (single hop for visitors)
+ *
+ * @returns Final target (status of the first hop), or null if none / loop
+ */
+export function resolveRedirect(
+  redirects: Map<string, RedirectTarget>,
+  path: string
+): RedirectTarget | null {
+  const first = redirects.get(normalizeRedirectPath(path))
+  if (!first) return null
+
+  const seen = new Set([normalizeRedirectPath(path)])
+  let current = first
+
+  for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+    if (isExternalTarget(current.to)) break
+    const target = normalizeRedirectPath(current.to)
+    if (seen.has(target)) return null
+    const next = redirects.get(target)
+    if (!next) break
+    seen.add(target)
+    current = next
+  }
+
+  return { ...current, status: first.status }
+}
+
+/**
+ * Detect loops, chains and redirects shadowing real pages
+ *
+ * @param table - Built redirect table
+ * @param pagePaths - URL paths served by real pages (getPageUrlPath)
+ */
+export function analyzeRedirects(table: RedirectTable, pagePaths: Set<string>): RedirectIssue[] {
+  const issues: RedirectIssue[] = [...table.duplicates]
+  const { redirects } = table
+
+  for (const [from, target] of redirects) {
+    if (pagePaths.has(from)) {
+      issues.push({
+        severity: 'error',
+        type: 'collision',
+        message: `${from} (${target.source}) shadows an existing page — remove the redirect or the page`
+      })
+    }
+
+    if (isExternalTarget(target.to)) continue
+
+    // Walk the chain from this source
+    const path = [from]
+    let next = normalizeRedirectPath(target.to)
+
+    while (redirects.has(next) && path.length <= MAX_REDIRECT_HOPS) {
+      if (path.includes(next)) {
+        // Report each loop once, from its smallest member
+        const loop = path.slice(path.indexOf(next))
+        if (from === [...loop].sort()[0]) {
+          issues.push({
+            severity: 'error',
+            type: 'loop',
+            message: `Redirect loop: ${[...loop, next].join(' → ')}`
+          })
+        }
+        break
+      }
+      path.push(next)
+      next = normalizeRedirectPath(redirects.get(next)!.to)
+    }
+
+    if (path.length > 1 && !path.includes(next)) {
+      issues.push({
+        severity: 'warning',
+        type: 'chain',
+        message: `Redirect chain: ${[...path, next].join(' → ')} — point ${from} directly to ${next}`
+      })
+    }
+  }
+
+  return issues
+}
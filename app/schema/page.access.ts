@@ -0,0 +1,337 @@
+/**
+ * page.access.ts
+ *
+ * PREVIEW ACCESS — Signed, expiring links (and optional password) for p/demo pages
+ *
+ * `p` and `demo` pages are noindex but public to anyone holding the URL.
+ * An `access:` block locks them down:
+ *
+ *   access:
+ *     token: true              # signed link required (?t=...), minted by pnpm preview:link
+ *     expiresAt: 2026-12-31    # every link stops working after this date ("link expired" page)
+ *     passwordHash: pbkdf2-sha256$...  # optional: visitors without a link can enter the
+ *                                      # password instead (hash from pnpm preview:password)
+ *
+ * Passwords are never stored in content: page files are plain YAML in the repo and
+ * the bundle. Only a salted PBKDF2-SHA256 hash is, checked when a visitor types it.
+ *
+ * Tokens are `<payload>.<signature>` (base64url), HMAC-SHA256 with NUXT_PREVIEW_SECRET.
+ * They are bound to kind/slug (any locale) and carry their own expiry.
+ * A valid link (or password) is remembered in the `iw_access_<kind>_<slug>` cookie.
+ *
+ * DRAFT PREVIEW — pages with `draft: true` 404 for everyone except editors who
+ * opened any page with `?preview=<NUXT_PREVIEW_SECRET>` (signed `iw_preview` cookie,
+ * `?preview=off` to leave). Same token format, target DRAFT_PREVIEW_TARGET.
+ *
+ * Used by:
+ * - app/schema/page.schema.ts + server/utils/page-loader.ts (Zod field)
+ * - server/utils/page-access.ts (token/cookie/password check before content is returned)
+ * - server/middleware/draft-preview.ts (?preview= → iw_preview cookie)
+ * - scripts/preview-link.ts (mints links)
+ * - scripts/preview-password.ts (hashes passwords)
+ * - scripts/guard-pages.ts (access only on p/demo)
+ *
+ * Web Crypto only (globalThis.crypto) — no node:crypto import.
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+import { PublishDateSchema, parsePublishDate } from './page.schedule'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Query parameter carrying the signed token */
+export const PREVIEW_TOKEN_PARAM = 't'
+
+/** Cookie remembering a valid link or password: `${ACCESS_COOKIE_PREFIX}${kind}_${slug}` */
+export const ACCESS_COOKIE_PREFIX = 'iw_access_'
+
+/** Lifetime of a password session (seconds) — 7 days, capped by access.expiresAt */
+export const PASSWORD_SESSION_MAX_AGE = 60 * 60 * 24 * 7
+
+/** Default lifetime of a minted link (days) */
+export const DEFAULT_LINK_DAYS = 7
+
+/** Kinds that may declare an access block */
+export const ACCESS_KINDS = ['p', 'demo'] as const
+
+/**
+ * Cache-Control of pages that depend on the visitor's link, cookie or preview
+ * session: never stored by a shared cache (CDN). Set on the page API response and,
+ * through PageDef.cacheControl, on the SSR HTML (usePageLoader).
+ */
+export const PRIVATE_PAGE_CACHE_CONTROL = 'private, no-store'
+
+/** Query parameter opening (secret) or closing ('off') draft preview */
+export const DRAFT_PREVIEW_PARAM = 'preview'
+
+/** Cookie holding the signed draft preview session */
+export const DRAFT_PREVIEW_COOKIE = 'iw_preview'
+
+/** Lifetime of a draft preview session (seconds) — 1 day */
+export const DRAFT_PREVIEW_MAX_AGE = 60 * 60 * 24
+
+/** Token target of a draft preview session (opens every draft) */
+export const DRAFT_PREVIEW_TARGET: AccessTarget = { kind: '*', slug: 'drafts' }
+
+/** Minimum password length (checked when hashing) */
+export const PASSWORD_MIN_LENGTH = 6
+
+/** PBKDF2 iterations of new password hashes (OWASP 2023 recommendation for SHA-256) */
+export const PASSWORD_HASH_ITERATIONS = 600_000
+
+/** `pbkdf2-sha256$<iterations>$<salt>$<hash>` (salt and hash base64url) */
+const PASSWORD_HASH_PATTERN = /^pbkdf2-sha256\$(\d+)\$([\w-]+)\$([\w-]+)$/
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+export const PageAccessSchema = z.object({
+  /** Signed link required (default true) */
+  token: z.boolean().optional().default(true),
+  /** After this date, every link and password session is refused */
+  expiresAt: PublishDateSchema.optional(),
+  /** Alternative to a signed link: hash of the password (never sent to the client) */
+  passwordHash: z
+    .string()
+    .regex(PASSWORD_HASH_PATTERN, 'passwordHash must be generated with pnpm preview:password')
+    .optional(),
+  /** Plaintext passwords are refused (readable by anyone with the content) */
+  password: z
+    .never('plaintext password is not allowed: store passwordHash (pnpm preview:password)')
+    .optional()
+})
+
+export type PageAccess = z.infer<typeof PageAccessSchema>
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AccessTarget {
+  kind: string
+  slug: string
+}
+
+/** Token payload (short keys keep links short) */
+interface AccessTokenPayload {
+  /** kind */
+  k: string
+  /** slug */
+  s: string
+  /** expiry (unix seconds) */
+  e: number
+  /** issued from a password (not a link) */
+  p?: 1
+}
+
+export type AccessTokenCheck =
+  | { valid: true; expiresAt: Date; fromPassword: boolean }
+  | { valid: false; reason: 'invalid' | 'expired' }
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Cookie name remembering access to a page ("/" is not allowed in cookie names)
+ */
+export function getAccessCookieName(target: AccessTarget): string {
+  return `${ACCESS_COOKIE_PREFIX}${target.kind}_${target.slug.replace(/\//g, '.')}`
+}
+
+/**
+ * Check an access block against the page kind
+ *
+ * @returns Error message, or null if valid (or no access block)
+ */
+export function getAccessError(kind: string, access: unknown): string | null {
+  if (access === undefined) return null
+  if (!(ACCESS_KINDS as readonly string[]).includes(kind)) {
+    return `access is only supported on ${ACCESS_KINDS.join('/')} pages`
+  }
+  return null
+}
+
+/**
+ * Global expiry of an access block (null if none)
+ */
+export function parseAccessExpiry(access: PageAccess): Date | null {
+  return access.expiresAt ? parsePublishDate(access.expiresAt) : null
+}
+
+/**
+ * Check if the access block's global expiry has passed
+ */
+export function isAccessExpired(access: PageAccess, now: Date = new Date()): boolean {
+  const expiresAt = parseAccessExpiry(access)
+  return expiresAt !== null && now.getTime() >= expiresAt.getTime()
+}
+
+/**
+ * Constant-time string comparison (signatures, passwords)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+function fromBase64Url(value: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(value))
+}
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  )
+  return toBase64Url(new Uint8Array(bits))
+}
+
+async function hmac(data: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+// =============================================================================
+// PASSWORDS
+// =============================================================================
+
+/**
+ * Hash a password for access.passwordHash (random salt)
+ */
+export async function hashAccessPassword(
+  password: string,
+  iterations: number = PASSWORD_HASH_ITERATIONS
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  return `pbkdf2-sha256$${iterations}$${toBase64Url(salt)}$${await pbkdf2(password, salt, iterations)}`
+}
+
+/**
+ * Check a password against access.passwordHash (constant-time comparison)
+ */
+export async function verifyAccessPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const match = passwordHash.match(PASSWORD_HASH_PATTERN)
+  if (!match) return false
+
+  const [, iterations, salt, hash] = match
+  return safeEqual(await pbkdf2(password, base64UrlToBytes(salt!), Number(iterations)), hash!)
+}
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+/**
+ * Sign an access token for a page
+ *
+ * @param target - { kind, slug } the token opens
+ * @param expiresAt - Token expiry
+ * @param secret - NUXT_PREVIEW_SECRET
+ * @param fromPassword - Session issued after a password (not valid when token-only)
+ */
+export async function signAccessToken(
+  target: AccessTarget,
+  expiresAt: Date,
+  secret: string,
+  fromPassword = false
+): Promise<string> {
+  const payload: AccessTokenPayload = {
+    k: target.kind,
+    s: target.slug,
+    e: Math.floor(expiresAt.getTime() / 1000),
+    ...(fromPassword && { p: 1 as const })
+  }
+  const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+  return `${encoded}.${await hmac(encoded, secret)}`
+}
+
+/**
+ * Verify a token: signature, target and expiry
+ * An expired token is only reported as "expired" when its signature is valid.
+ */
+export async function verifyAccessToken(
+  token: string,
+  target: AccessTarget,
+  secret: string,
+  now: Date = new Date()
+): Promise<AccessTokenCheck> {
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature || !safeEqual(signature, await hmac(encoded, secret))) {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  let payload: AccessTokenPayload
+  try {
+    payload = JSON.parse(fromBase64Url(encoded)) as AccessTokenPayload
+  } catch {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  if (payload.k !== target.kind || payload.s !== target.slug || typeof payload.e !== 'number') {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  const expiresAt = new Date(payload.e * 1000)
+  if (now.getTime() >= expiresAt.getTime()) {
+    return { valid: false, reason: 'expired' }
+  }
+
+  return { valid: true, expiresAt, fromPassword: payload.p === 1 }
+}
+
+/**
+ * Read a token's expiry WITHOUT verifying it (cookie lifetime on the client)
+ *
+ * @returns Expiry, or null if the token is malformed
+ */
+export function readAccessTokenExpiry(token: string): Date | null {
+  try {
+    const payload = JSON.parse(fromBase64Url(token.split('.')[0] ?? '')) as AccessTokenPayload
+    return typeof payload.e === 'number' ? new Date(payload.e * 1000) : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * page.dts.ts
+ *
+ * TYPESCRIPT DECLARATIONS — Standalone .d.ts for services that generate pages
+ *
+ * Generated from the section and shell manifests (props via zodShape, input side:
+ * defaults make fields optional). No import, no runtime code:
+ *
+ * - <Id>Props: props of each section and shell (JSDoc from .describe() + defaults)
+ * - SectionDef: union of every section, discriminated on `id`
+ * - HeaderShell / FooterShell: union of the shells of each slot, PageShell
+ * - PackKey, SectionId, HeaderShellId, FooterShellId, CatalogVersion
+ *
+ * Zod constructs zodShape cannot describe (see SchemaShape.unsupported) become
+ * `unknown`: looser than the schema, never stricter. pnpm guard:pages remains the
+ * reference (refinements, kind rules...).
+ *
+ * Used by:
+ * - scripts/build-catalog.ts (writes public/catalog.d.ts)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { zodToShape, type PropShape } from '../utils/zodShape'
+import type { SectionManifestEntry } from '../sections/sections.manifest'
+import type { ShellManifestEntry, ShellSlot } from '../shells/shells.manifest'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Output path, relative to public/ (also the catalog's `types` field) */
+export const PAGE_TYPES_PATH = 'catalog.d.ts'
+
+const INDENT = '  '
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Type name from an id: interweb.hero → InterwebHero
+ */
+function toTypeName(id: string): string {
+  return id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('')
+}
+
+function toPropertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function toLiteralUnion(values: unknown[]): string {
+  return values.length > 0 ? values.map((value) => JSON.stringify(value)).join(' | ') : 'never'
+}
+
+/**
+ * `export type Name =` with one member per line
+ */
+function toUnionDeclaration(name: string, members: string[]): string {
+  if (members.length === 0) return `export type ${name} = never\n`
+  return `export type ${name} =\n${members.map((member) => `${INDENT}| ${member}`).join('\n')}\n`
+}
+
+/**
+ * JSDoc block (empty string when there is nothing to say)
+ */
+function toDocComment(rawLines: string[], indent: string): string {
+  // Defaults and descriptions may contain "*/" (e.g. HTML strings)
+  const lines = rawLines.map((line) => line.replaceAll('*/', '*\\/'))
+  if (lines.length === 0) return ''
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`
+}
+
+// =============================================================================
+// CONVERSION (PropShape → TypeScript)
+// =============================================================================
+
+function toTsType(shape: PropShape, indent: string): string {
+  let type: string
+
+  switch (shape.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      type = shape.type
+      break
+
+    case 'enum':
+    case 'literal':
+      type = toLiteralUnion(shape.values ?? [])
+      break
+
+    case 'union':
+      type = (shape.variants ?? []).map((variant) => toTsType(variant, indent)).join(' | ')
+      type ||= 'never'
+      break
+
+    case 'record': {
+      const key = shape.keyShape ? toTsType(shape.keyShape, indent) : 'string'
+      const value = shape.valueShape ? toTsType(shape.valueShape, indent) : 'unknown'
+      type = `Record<${key}, ${value}>`
+      break
+    }
+
+    case 'array':
+      type = shape.items ? `Array<${toTsType(shape.items, indent)}>` : 'unknown[]'
+      break
+
+    case 'object':
+      type = toTsObject(shape.properties ?? {}, indent)
+      break
+
+    default:
+      type = 'unknown'
+  }
+
+  return shape.nullable && type !== 'unknown' ? `${type} | null` : type
+}
+
+function toTsObject(properties: Record<string, PropShape>, indent: string): string {
+  const inner = indent + INDENT
+  const members = Object.entries(properties).map(([key, shape]) => {
+    const doc: string[] = []
+    if (shape.description) doc.push(shape.description)
+    if (shape.default !== undefined) doc.push(`@default ${JSON.stringify(shape.default)}`)
+
+    const optional = shape.optional ? '?' : ''
+    return `${toDocComment(doc, inner)}${inner}${toPropertyKey(key)}${optional}: ${toTsType(shape, inner)}`
+  })
+
+  return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}'
+}
+
+// =============================================================================
+// DECLARATIONS
+// =============================================================================
+
+interface TypedEntry {
+  id: string
+  description: string
+  deprecated?: string
+  typeName: string
+  properties: Record<string, PropShape>
+  /** Every prop is optional: `props` may be omitted (validated as {}) */
+  propsOptional: boolean
+}
+
+function toTypedEntry(entry: SectionManifestEntry | ShellManifestEntry): TypedEntry {
+  const { properties } = zodToShape(entry.schema)
+  return {
+    id: entry.id,
+    description: entry.description,
+    deprecated: entry.deprecated,
+    typeName: toTypeName(entry.id),
+    properties,
+    propsOptional: Object.values(properties).every((shape) => shape.optional)
+  }
+}
+
+function toEntryDoc(entry: TypedEntry): string[] {
+  return [entry.description, ...(entry.deprecated ? [`@deprecated ${entry.deprecated}`] : [])]
+}
+
+function propsDeclaration(entry: TypedEntry): string {
+  return (
+    toDocComment([`${entry.id} props`], '') +
+    `export interface ${entry.typeName}Props ${toTsObject(entry.properties, '')}\n`
+  )
+}
+
+function sectionDeclaration(entry: TypedEntry): string {
+  const props = `props${entry.propsOptional ? '?' : ''}: ${entry.typeName}Props`
+  return (
+    toDocComment(toEntryDoc(entry), '') +
+    `export interface ${entry.typeName}Section extends SectionBase {\n` +
+    `${INDENT}id: ${JSON.stringify(entry.id)}\n${INDENT}${props}\n}\n`
+  )
+}
+
+function shellDeclaration(entry: TypedEntry): string {
+  const props = `props${entry.propsOptional ? '?' : ''}: ${entry.typeName}Props`
+  return (
+    toDocComment(toEntryDoc(entry), '') +
+    `export interface ${entry.typeName}Shell {\n` +
+    `${INDENT}id: ${JSON.stringify(entry.id)}\n${INDENT}${props}\n}\n`
+  )
+}
+
+/**
+ * Shared section fields (page.schema.ts SectionDefSchema)
+ */
+const SECTION_BASE = `/** Fields every section accepts */
+export interface SectionBase {
+  /** Pack styling this section (default: the page packKey) */
+  pack?: PackKey
+  /** CSS custom properties (--name: value) */
+  overrides?: Record<string, string>
+  /** ISO 8601 date: hidden before */
+  publishAt?: string
+  /** ISO 8601 date: hidden from */
+  unpublishAt?: string
+  /** A/B experiment key (lowercase, digits, dashes) */
+  experiment?: string
+  variants?: SectionVariant[]
+}
+
+/** A/B variant: replaces id/pack/overrides, props merged over the section props */
+export interface SectionVariant {
+  key: string
+  /** Relative weight (0 pauses the variant) */
+  weight?: number
+  id?: SectionId
+  pack?: PackKey
+  props?: Record<string, unknown>
+  overrides?: Record<string, string>
+}
+`
+
+/**
+ * The whole .d.ts document
+ *
+ * @param version - Catalog version (content hash), exposed as CatalogVersion
+ */
+export function buildPageTypes(
+  sections: SectionManifestEntry[],
+  shells: ShellManifestEntry[],
+  packs: readonly string[],
+  version: string
+): string {
+  const sectionEntries = sections.map(toTypedEntry)
+  const shellsOf = (slot: ShellSlot) =>
+    shells.filter((entry) => entry.slot === slot).map(toTypedEntry)
+  const headers = shellsOf('header')
+  const footers = shellsOf('footer')
+
+  const union = (name: string, entries: TypedEntry[], suffix: string) =>
+    toUnionDeclaration(
+      name,
+      entries.map((entry) => `${entry.typeName}${suffix}`)
+    )
+  const ids = (name: string, entries: TypedEntry[]) =>
+    toUnionDeclaration(
+      name,
+      entries.map((entry) => JSON.stringify(entry.id))
+    )
+
+  return [
+    `/**
+ * Page builder types — section and shell props, generated from the manifests.
+ * GENERATED by pnpm catalog:build — do not edit (see public/catalog.json).
+ */
+`,
+    `export type CatalogVersion = ${JSON.stringify(version)}\n`,
+    `export type PackKey = ${toLiteralUnion([...packs])}\n`,
+    '// Sections\n',
+    ids('SectionId', sectionEntries),
+    SECTION_BASE,
+    ...sectionEntries.flatMap((entry) => [propsDeclaration(entry), sectionDeclaration(entry)]),
+    `/** A section of page.sections[], discriminated on id */\n${union('SectionDef', sectionEntries, 'Section')}`,
+    '// Shells\n',
+    ids('HeaderShellId', headers),
+    ids('FooterShellId', footers),
+    ...[...headers, ...footers].flatMap((entry) => [
+      propsDeclaration(entry),
+      shellDeclaration(entry)
+    ]),
+    union('HeaderShell', headers, 'Shell'),
+    union('FooterShell', footers, 'Shell'),
+    `/** page.shell (null: no header/footer) */
+export interface PageShell {
+  header?: HeaderShell | null
+  footer?: FooterShell | null
+}
+`
+  ].join('\n')
+}
@@ -0,0 +1,182 @@
+/**
+ * page.experiments.ts
+ *
+ * SECTION A/B EXPERIMENTS — Weighted variants with sticky bucketing
+ *
+ * A section can declare an experiment with at least two variants:
+ *
+ *   - id: hero.split
+ *     props: { title: Interweb, ctaHref: '/contact' }   # shared by all variants
+ *     experiment: home-hero
+ *     variants:
+ *       - key: control
+ *         weight: 50
+ *       - key: short-title
+ *         weight: 50
+ *         props:                                         # shallow-merged over section props
+ *           title: Votre site en 24h
+ *
+ * A variant may also replace `id`, `pack` and `overrides`.
+ * The server picks one variant per visitor (cookie `iw_exp_<experiment>`), so every
+ * section sharing an experiment key shows the same variant.
+ *
+ * Used by:
+ * - app/schema/page.schema.ts + server/utils/page-loader.ts (Zod fields, props of every variant)
+ * - server/utils/experiments.ts (per-request assignment + cookie)
+ * - app/components/renderer/SectionRenderer.vue (deterministic fallback, data attributes)
+ * - scripts/guard-pages.ts (validates every variant)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Experiment and variant keys: lowercase, digits, dashes */
+const EXPERIMENT_KEY_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+/** Sticky bucketing cookie: `${EXPERIMENT_COOKIE_PREFIX}${experiment}` = variant key */
+export const EXPERIMENT_COOKIE_PREFIX = 'iw_exp_'
+
+/** Cookie lifetime (seconds) — 90 days */
+export const EXPERIMENT_COOKIE_MAX_AGE = 60 * 60 * 24 * 90
+
+/**
+ * Response headers of a page with experiments: the variant depends on the visitor's
+ * cookies, so shared caches must not store it (API response and SSR HTML)
+ */
+export const EXPERIMENT_CACHE_CONTROL = 'private, no-cache'
+export const EXPERIMENT_VARY = 'Cookie'
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+export const ExperimentKeySchema = z
+  .string()
+  .regex(EXPERIMENT_KEY_PATTERN, 'Must be lowercase letters, digits and dashes')
+
+export const SectionVariantSchema = z.object({
+  key: ExperimentKeySchema,
+  /** Relative weight (0 pauses the variant) */
+  weight: z.number().min(0).optional().default(1),
+  id: z.string().min(1).optional(),
+  pack: z.string().optional(),
+  props: z.record(z.string(), z.unknown()).optional(),
+  overrides: z.record(z.string(), z.string()).optional()
+})
+
+export type SectionVariant = z.infer<typeof SectionVariantSchema>
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Minimal section shape handled here (raw YAML or parsed SectionDef)
+ */
+export interface ExperimentSection {
+  id: string
+  pack?: string
+  props?: Record<string, unknown>
+  overrides?: Record<string, string>
+  experiment?: string
+  variants?: Array<Partial<SectionVariant> & { key: string }>
+  variant?: string
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Cookie name holding the visitor's variant for an experiment
+ */
+export function getExperimentCookieName(experiment: string): string {
+  return `${EXPERIMENT_COOKIE_PREFIX}${experiment}`
+}
+
+/**
+ * Check experiment/variants consistency on a section
+ *
+ * @returns Error message, or null if valid (or no experiment)
+ */
+export function getExperimentError(section: ExperimentSection): string | null {
+  const { experiment, variants } = section
+
+  if (experiment === undefined && variants === undefined) return null
+
+  if (experiment === undefined) return 'variants requires an experiment key'
+  if (!variants) return `experiment "${experiment}" requires a variants list`
+  if (variants.length < 2) return `experiment "${experiment}" needs at least 2 variants`
+
+  const keys = variants.map((v) => v.key)
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i)
+  if (duplicate) return `experiment "${experiment}" has duplicate variant key "${duplicate}"`
+
+  for (const variant of variants) {
+    const badKey = Object.keys(variant.overrides ?? {}).find((k) => !k.startsWith('--'))
+    if (badKey) {
+      return `variant "${variant.key}": override key "${badKey}" must start with "--"`
+    }
+  }
+
+  const totalWeight = variants.reduce((sum, v) => sum + (v.weight ?? 1), 0)
+  if (totalWeight <= 0) return `experiment "${experiment}" has no variant with a positive weight`
+
+  return null
+}
+
+/**
+ * Check if a variant key can be served (exists and weight > 0)
+ */
+export function isServableVariant(section: ExperimentSection, key: unknown): key is string {
+  return Boolean(section.variants?.some((v) => v.key === key && (v.weight ?? 1) > 0))
+}
+
+/**
+ * Weighted random pick
+ *
+ * @param random - Number in [0, 1) (Math.random() by default)
+ */
+export function pickVariant(
+  variants: NonNullable<ExperimentSection['variants']>,
+  random: number = Math.random()
+): string {
+  const total = variants.reduce((sum, v) => sum + (v.weight ?? 1), 0)
+  let threshold = random * total
+
+  for (const variant of variants) {
+    threshold -= variant.weight ?? 1
+    if (threshold < 0) return variant.key
+  }
+
+  // Floating point edge: last variant with a positive weight
+  return [...variants].reverse().find((v) => (v.weight ?? 1) > 0)!.key
+}
+
+/**
+ * Effective section for one variant (no `variants` left, `variant` set)
+ * - props: shallow merge (variant wins)
+ * - id/pack/overrides: replaced when the variant sets them
+ */
+export function resolveSectionVariant<T extends ExperimentSection>(
+  section: T,
+  key: string
+): Omit<T, 'variants'> {
+  const { variants, ...base } = section
+  const variant = variants?.find((v) => v.key === key)
+  if (!variant) return base
+
+  return {
+    ...base,
+    ...(variant.id !== undefined && { id: variant.id }),
+    ...(variant.pack !== undefined && { pack: variant.pack }),
+    ...(variant.overrides !== undefined && { overrides: variant.overrides }),
+    props: { ...(base.props ?? {}), ...(variant.props ?? {}) },
+    variant: variant.key
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * page.images.ts
+ *
+ * PAGE IMAGES — Image URLs of a page, found through the section schemas
+ *
+ * Section schemas mark their image props with imageRegistry (the mark carries the
+ * sibling prop holding the alt text):
+ *
+ *   imageUrl: z.string().url().optional().register(imageRegistry, { alt: 'title' })
+ *
+ * zodToShape copies the mark to PropShape.image, so images are found in nested
+ * objects, arrays, unions and records without per-section code.
+ *
+ * Used by:
+ * - app/utils/zodShape.ts (PropShape.image, also exported in public/catalog.json)
+ * - server/utils/sitemap.ts (<image:image> entries of site pages)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+import { isPublished, type PublishWindow } from './page.schedule'
+import type { PropShape, SchemaShape } from '../utils/zodShape'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Mark of an image prop (string holding an image URL)
+ */
+export interface ImageMeta {
+  /** Sibling prop holding the alt text (e.g. 'title'); none: decorative image */
+  alt?: string
+}
+
+/**
+ * An image of a page
+ */
+export interface PageImage {
+  /** As written in the props (absolute or site-relative) */
+  url: string
+  /** Plain text (HTML tags removed) */
+  alt?: string
+}
+
+/**
+ * A section as built by the page loader (props parsed, defaults applied)
+ */
+export interface ImageSection extends PublishWindow {
+  id: string
+  props: Record<string, unknown>
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/** Image props of the section schemas (see header) */
+export const imageRegistry = z.registry<ImageMeta>()
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toPlainText(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Walk a props value along its shape, collecting marked image props
+ *
+ * @param parent - Object holding the value (alt text lookup)
+ */
+function collectImages(
+  shape: PropShape,
+  value: unknown,
+  parent: Record<string, unknown> | null,
+  images: PageImage[]
+): void {
+  if (value === undefined || value === null) return
+
+  if (shape.image && typeof value === 'string' && value.trim()) {
+    const alt = shape.image.alt ? parent?.[shape.image.alt] : undefined
+    const text = typeof alt === 'string' ? toPlainText(alt) : ''
+    images.push({ url: value.trim(), ...(text && { alt: text }) })
+    return
+  }
+
+  switch (shape.type) {
+    case 'object':
+      if (isRecord(value)) {
+        for (const [key, propShape] of Object.entries(shape.properties ?? {})) {
+          collectImages(propShape, value[key], value, images)
+        }
+      }
+      break
+
+    case 'array':
+      if (Array.isArray(value) && shape.items) {
+        for (const item of value) collectImages(shape.items, item, parent, images)
+      }
+      break
+
+    case 'record':
+      if (isRecord(value) && shape.valueShape) {
+        for (const item of Object.values(value)) {
+          collectImages(shape.valueShape, item, value, images)
+        }
+      }
+      break
+
+    case 'union':
+      // Variants the value does not match have nothing to collect
+      for (const variant of shape.variants ?? []) collectImages(variant, value, parent, images)
+      break
+  }
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * Images of one section's props
+ *
+ * @param shape - Props shape of the section (zodToShape of its schema)
+ */
+export function getSectionImages(shape: SchemaShape, props: Record<string, unknown>): PageImage[] {
+  const images: PageImage[] = []
+  collectImages(
+    { type: 'object', optional: false, properties: shape.properties },
+    props,
+    null,
+    images
+  )
+  return images
+}
+
+/**
+ * Images of a page, in section order, deduplicated by URL (first alt wins)
+ *
+ * - Sections outside their publishing window are skipped
+ * - A/B variants are not walked: the base props are the page's canonical content
+ *
+ * @param getShape - Props shape of a section id (undefined for unknown ids)
+ */
+export function getPageImages(
+  sections: ImageSection[],
+  getShape: (id: string) => SchemaShape | undefined,
+  now: Date = new Date()
+): PageImage[] {
+  const images = new Map<string, PageImage>()
+
+  for (const section of sections) {
+    if (!isPublished(section, now)) continue
+    const shape = getShape(section.id)
+    if (!shape) continue
+
+    for (const image of getSectionImages(shape, section.props)) {
+      if (!images.has(image.url)) images.set(image.url, image)
+    }
+  }
+
+  return [...images.values()]
+}
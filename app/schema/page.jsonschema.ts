@@ -0,0 +1,196 @@
+/**
+ * page.jsonschema.ts
+ *
+ * JSON SCHEMA EXPORT — JSON Schema 2020-12 documents for pages, sections and shells
+ *
+ * Generated from the same Zod schemas the loader and guard-pages use
+ * (z.toJSONSchema, input side: defaults make fields optional):
+ *
+ * - page: PageDefSchema, `sections[]` as a union discriminated on `id` (one branch
+ *   per section, props checked against that section's schema), shell slots the
+ *   same way per shell id. Section/shell props schemas live in `$defs`, so the
+ *   document is self-contained.
+ * - one document per section and per shell (props only)
+ *
+ * Pages as written in YAML also validate: `$ref: partials/<name>` items are
+ * accepted wherever a section or shell component is, and pages declaring `kit`
+ * only need `kind` (the kit provides the rest).
+ *
+ * Not expressible in JSON Schema (still checked by pnpm guard:pages): refinements
+ * such as ISO dates, `--` CSS override keys, experiment weights, kind rules.
+ *
+ * Used by:
+ * - scripts/build-catalog.ts (writes public/schemas/)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z, type ZodType } from 'zod/v4'
+import { PageDefSchema } from './page.schema'
+import { PARTIAL_REF_KEY, PARTIAL_REF_PATTERN } from './page.partials'
+import type { SectionManifestEntry } from '../sections/sections.manifest'
+import type { ShellManifestEntry, ShellSlot } from '../shells/shells.manifest'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JsonSchema = Record<string, unknown>
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/** Output paths, relative to public/ (also the catalog's `jsonSchema` fields) */
+export const PAGE_JSON_SCHEMA_PATH = 'schemas/page.schema.json'
+
+export function getSectionJsonSchemaPath(id: string): string {
+  return `schemas/sections/${id}.schema.json`
+}
+
+export function getShellJsonSchemaPath(id: string): string {
+  return `schemas/shells/${id}.schema.json`
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Zod → JSON Schema (2020-12, input side, without the `$schema` keyword)
+ * Types with no JSON equivalent become `{}` (any) instead of throwing.
+ */
+export function toJsonSchema(schema: ZodType): JsonSchema {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, {
+    target: 'draft-2020-12',
+    io: 'input',
+    unrepresentable: 'any'
+  }) as JsonSchema
+  return jsonSchema
+}
+
+/**
+ * `{ $ref: partials/<name>, props? }` — resolved at load time, props merged over
+ */
+function partialRefSchema(): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      [PARTIAL_REF_KEY]: { type: 'string', pattern: PARTIAL_REF_PATTERN.source },
+      props: { type: 'object' }
+    },
+    required: [PARTIAL_REF_KEY]
+  }
+}
+
+function sectionDefKey(id: string): string {
+  return `section.${id}`
+}
+
+function shellDefKey(id: string): string {
+  return `shell.${id}`
+}
+
+// =============================================================================
+// DOCUMENTS
+// =============================================================================
+
+/**
+ * Props schema of one section
+ */
+export function buildSectionJsonSchema(entry: SectionManifestEntry): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: `${entry.id} props`,
+    ...toJsonSchema(entry.schema)
+  }
+}
+
+/**
+ * Props schema of one shell component
+ */
+export function buildShellJsonSchema(entry: ShellManifestEntry): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: `${entry.id} props (${entry.slot})`,
+    ...toJsonSchema(entry.schema)
+  }
+}
+
+/**
+ * Page schema: PageDefSchema with sections and shell slots discriminated on `id`
+ */
+export function buildPageJsonSchema(
+  sections: SectionManifestEntry[],
+  shells: ShellManifestEntry[]
+): JsonSchema {
+  const page = toJsonSchema(PageDefSchema)
+  const properties = page.properties as Record<string, JsonSchema>
+  const sectionsProperty = properties.sections!
+  const shellProperty = properties.shell!
+
+  // Fields shared by every section (id, pack, overrides, variants...)
+  const sectionBase = sectionsProperty.items as JsonSchema
+
+  const $defs: Record<string, JsonSchema> = { section: sectionBase }
+  for (const entry of sections) {
+    $defs[sectionDefKey(entry.id)] = toJsonSchema(entry.schema)
+  }
+  for (const entry of shells) {
+    $defs[shellDefKey(entry.id)] = toJsonSchema(entry.schema)
+  }
+
+  // One branch per section id: base fields + that section's props
+  sectionsProperty.items = {
+    oneOf: [
+      ...sections.map((entry) => ({
+        $ref: '#/$defs/section',
+        properties: {
+          id: { const: entry.id },
+          props: { $ref: `#/$defs/${sectionDefKey(entry.id)}` }
+        }
+      })),
+      partialRefSchema()
+    ]
+  }
+
+  // One branch per shell id allowed in the slot (header.* / footer.*)
+  const slotSchema = (slot: ShellSlot): JsonSchema => ({
+    oneOf: [
+      { type: 'null' },
+      ...shells
+        .filter((entry) => entry.slot === slot)
+        .map((entry) => ({
+          type: 'object',
+          properties: {
+            id: { const: entry.id },
+            props: { $ref: `#/$defs/${shellDefKey(entry.id)}` }
+          },
+          required: ['id']
+        })),
+      partialRefSchema()
+    ]
+  })
+  shellProperty.properties = { header: slotSchema('header'), footer: slotSchema('footer') }
+
+  // Kit pages (kit + vars) get seo/sections from the kit
+  const required = (page.required as string[] | undefined) ?? []
+  const { required: _required, ...rest } = page
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: 'Page definition (content/<locale>/pages/<kind>/<slug>.yaml)',
+    ...rest,
+    properties: {
+      ...properties,
+      kit: { type: 'string' },
+      vars: { type: 'object' }
+    },
+    required: ['kind'],
+    if: { required: ['kit'] },
+    else: { required: required.filter((key) => key !== 'kind') },
+    $defs
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * page.kits.ts
+ *
+ * CONTENT KITS — Page templates expanded at load time with placeholder values
+ *
+ * Kits live in `content/kits/<id>.yaml`: a template page (`page`) using
+ * `{{placeholder}}` strings, plus metadata and declared variables:
+ *
+ *   name: Service Local
+ *   description: Local business page
+ *   vars:
+ *     city: { description: Location, example: Paris }
+ *     year: { default: 2025 }
+ *   page:
+ *     kind: site
+ *     seo: { title: '{{company_name}} à {{city}}', ... }
+ *     sections: [...]
+ *
+ * A page uses a kit by declaring `kit` + `vars`. Any other top-level key of the
+ * page (seo, shell, sections, packKey...) replaces the kit's:
+ *
+ *   kind: site
+ *   schemaVersion: 4
+ *   kit: service-local
+ *   vars:
+ *     company_name: Pizza David
+ *     city: Lyon
+ *
+ * Substitution:
+ * - A string that is exactly one placeholder keeps the value type ('{{year}}' → 2025)
+ * - Otherwise values are interpolated as text
+ * - Unknown placeholders are left as-is and reported as `unresolved`
+ *
+ * Used by:
+ * - server/utils/page-loader.ts (expands via serverQueryContent)
+ * - scripts/guard-pages.ts (expands via the filesystem, reports unresolved placeholders)
+ * - scripts/build-catalog.ts (lists available kits)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+import { migratePage, type RawPage } from './page.migrations'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Page key selecting a kit */
+export const KIT_KEY = 'kit'
+
+/** Page key holding placeholder values */
+export const KIT_VARS_KEY = 'vars'
+
+/** Valid kit id: file name in content/kits (lowercase, digits, dashes) */
+const KIT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+/** {{ name }} — letters, digits, underscores */
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g
+
+/** A string made of a single placeholder */
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}$/
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const KitVarValueSchema = z.union([z.string(), z.number(), z.boolean()])
+
+export const KitVarDefSchema = z.object({
+  description: z.string().optional(),
+  example: z.string().optional(),
+  default: KitVarValueSchema.optional()
+})
+
+export const KitDefSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  vars: z.record(z.string(), KitVarDefSchema).default({}),
+  page: z.record(z.string(), z.unknown())
+})
+
+const PageVarsSchema = z.record(z.string(), KitVarValueSchema)
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type KitVarValue = z.infer<typeof KitVarValueSchema>
+export type KitVarDef = z.infer<typeof KitVarDefSchema>
+export type KitDef = z.infer<typeof KitDefSchema>
+
+/**
+ * Loads a kit document by id (e.g. "service-local")
+ * Returns null if the kit does not exist
+ */
+export type KitLoader = (id: string) => Promise<Record<string, unknown> | null>
+
+export type KitParseResult = { success: true; kit: KitDef } | { success: false; error: string }
+
+export type KitExpansionResult =
+  | {
+      success: true
+      page: RawPage
+      /** Kit id, or null when the page does not use a kit */
+      kit: string | null
+      /** Placeholders without a value (sorted) */
+      unresolved: string[]
+      /** Page vars not used by any placeholder (sorted) */
+      unusedVars: string[]
+    }
+  | { success: false; error: string }
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Check if a kit id has the expected format
+ */
+export function isValidKitId(id: unknown): id is string {
+  return typeof id === 'string' && KIT_ID_PATTERN.test(id)
+}
+
+/**
+ * List every placeholder name used in a value (deep, sorted, unique)
+ */
+export function findPlaceholders(value: unknown): string[] {
+  const names = new Set<string>()
+
+  function visit(node: unknown): void {
+    if (typeof node === 'string') {
+      for (const match of node.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]!)
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach(visit)
+    } else if (node && typeof node === 'object') {
+      Object.values(node).forEach(visit)
+    }
+  }
+
+  visit(value)
+  return [...names].sort()
+}
+
+/**
+ * Replace placeholders in a value (deep, input not mutated)
+ * Placeholders without a value are left untouched
+ */
+export function substitutePlaceholders(value: unknown, vars: Record<string, KitVarValue>): unknown {
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_PLACEHOLDER_PATTERN)
+    if (single && single[1]! in vars) {
+      return vars[single[1]!]
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in vars ? String(vars[name]) : placeholder
+    )
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substitutePlaceholders(item, vars))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substitutePlaceholders(item, vars)])
+    )
+  }
+  return value
+}
+
+/**
+ * Validate a kit document (content metadata such as `title` is dropped)
+ */
+export function parseKitDef(doc: Record<string, unknown>): KitParseResult {
+  const result = KitDefSchema.safeParse(doc)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue?.path.length ? `${issue.path.join('.')}: ` : ''
+    return { success: false, error: `${path}${issue?.message ?? 'Invalid kit'}` }
+  }
+  return { success: true, kit: result.data }
+}
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+/**
+ * Expand a page declaring `kit` into a full raw page
+ *
+ * - Kit template is migrated to the current schemaVersion first
+ * - Page keys (except `kit`/`vars`) replace the template's top-level keys
+ * - Placeholders are substituted from page vars, then kit defaults
+ * - Pages without `kit` are returned unchanged (`vars` is ignored)
+ *
+ * @param page - Raw page object, already migrated (not mutated)
+ * @param loadKit - IO callback (content query or filesystem)
+ * @returns Expanded page + unresolved placeholders, or an error message
+ */
+export async function expandKit(page: RawPage, loadKit: KitLoader): Promise<KitExpansionResult> {
+  const { [KIT_KEY]: kitId, [KIT_VARS_KEY]: rawVars, ...fields } = page
+
+  if (kitId === undefined || kitId === null) {
+    return { success: true, page, kit: null, unresolved: [], unusedVars: [] }
+  }
+
+  if (!isValidKitId(kitId)) {
+    return {
+      success: false,
+      error: `Invalid kit "${String(kitId)}" — expected a file name from content/kits (lowercase, digits, dashes)`
+    }
+  }
+
+  const vars = PageVarsSchema.safeParse(rawVars ?? {})
+  if (!vars.success) {
+    return {
+      success: false,
+      error: 'Invalid vars — expected a map of placeholder names to strings, numbers or booleans'
+    }
+  }
+
+  const doc = await loadKit(kitId)
+  if (!doc) {
+    return { success: false, error: `Kit not found: ${kitId}` }
+  }
+
+  const parsed = parseKitDef(doc)
+  if (!parsed.success) {
+    return { success: false, error: `Invalid kit "${kitId}": ${parsed.error}` }
+  }
+
+  const template = migratePage(parsed.kit.page)
+  if (!template.success) {
+    return { success: false, error: `Invalid kit "${kitId}": ${template.error}` }
+  }
+
+  const defaults: Record<string, KitVarValue> = {}
+  for (const [name, def] of Object.entries(parsed.kit.vars)) {
+    if (def.default !== undefined) defaults[name] = def.default
+  }
+  const values = { ...defaults, ...vars.data }
+
+  const merged: RawPage = { ...template.page, ...fields }
+  const used = findPlaceholders(merged)
+  const expanded = substitutePlaceholders(merged, values) as RawPage
+
+  return {
+    success: true,
+    page: expanded,
+    kit: kitId,
+    unresolved: findPlaceholders(expanded),
+    unusedVars: Object.keys(vars.data)
+      .filter((name) => !used.includes(name))
+      .sort()
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * page.migrations.ts
+ *
+ * VERSIONED PAGE SCHEMA — Ordered content migrations
+ *
+ * Every YAML page declares `schemaVersion`. When the page format changes in a
+ * breaking way, bump PAGE_SCHEMA_VERSION and append ONE migration step below.
+ * Steps are pure functions on the raw YAML object, applied in order.
+ *
+ * Used by:
+ * - server/utils/page-loader.ts (in-memory upgrade at load time)
+ * - scripts/guard-pages.ts (validates the migrated page, warns on outdated files)
+ * - scripts/migrate-content.ts (rewrites files on disk: pnpm content:migrate)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+// =============================================================================
+// VERSIONS
+// =============================================================================
+
+/**
+ * Current page schema version (matches PageDefSchema "V4" with Shell System)
+ */
+export const PAGE_SCHEMA_VERSION = 4
+
+/**
+ * Version assumed for pages written before `schemaVersion` existed
+ */
+export const LEGACY_PAGE_SCHEMA_VERSION = 3
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Raw page object as parsed from YAML (before Zod validation)
+ */
+export type RawPage = Record<string, unknown>
+
+export interface PageMigration {
+  /** Version this step upgrades FROM (result is `from + 1`) */
+  from: number
+  /** Human-readable summary (shown by content:migrate) */
+  description: string
+  /** Pure transform — must not mutate its input */
+  up: (page: RawPage) => RawPage
+}
+
+export type PageMigrationResult =
+  | { success: true; page: RawPage; fromVersion: number; applied: PageMigration[] }
+  | { success: false; error: string }
+
+// =============================================================================
+// MIGRATION STEPS (append only, ordered by `from`)
+// =============================================================================
+
+/**
+ * Shell component upgrade: string id → { id, props }
+ */
+function upgradeShellComponent(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return { id: value, props: {} }
+  }
+  return value
+}
+
+export const PAGE_MIGRATIONS: PageMigration[] = [
+  {
+    from: 3,
+    description: 'shell.header/shell.footer: string id → { id, props }',
+    up: (page) => {
+      const shell = page.shell
+      if (!shell || typeof shell !== 'object') return page
+
+      const raw = shell as Record<string, unknown>
+      const next: Record<string, unknown> = { ...raw }
+      if ('header' in raw) next.header = upgradeShellComponent(raw.header)
+      if ('footer' in raw) next.footer = upgradeShellComponent(raw.footer)
+
+      return { ...page, shell: next }
+    }
+  }
+]
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Read the declared schema version of a raw page
+ * Missing `schemaVersion` means LEGACY_PAGE_SCHEMA_VERSION
+ *
+ * @returns version number, or null if the field is present but not an integer
+ */
+export function getPageSchemaVersion(page: RawPage): number | null {
+  const version = page.schemaVersion
+  if (version === undefined || version === null) {
+    return LEGACY_PAGE_SCHEMA_VERSION
+  }
+  return typeof version === 'number' && Number.isInteger(version) ? version : null
+}
+
+/**
+ * Upgrade a raw page to PAGE_SCHEMA_VERSION
+ *
+ * - Applies every step from the page's version up to the current one, in order
+ * - Sets `schemaVersion` on the result
+ * - Fails on invalid versions and on pages newer than this codebase
+ *
+ * @param page - Raw page object (not mutated)
+ * @returns Migrated page + applied steps, or an error message
+ */
+export function migratePage(page: RawPage): PageMigrationResult {
+  const fromVersion = getPageSchemaVersion(page)
+
+  if (fromVersion === null) {
+    return {
+      success: false,
+      error: `Invalid schemaVersion "${String(page.schemaVersion)}" — must be an integer`
+    }
+  }
+
+  if (fromVersion > PAGE_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: `schemaVersion ${fromVersion} is newer than supported version ${PAGE_SCHEMA_VERSION}`
+    }
+  }
+
+  const applied: PageMigration[] = []
+  let current: RawPage = page
+
+  for (let version = fromVersion; version < PAGE_SCHEMA_VERSION; version++) {
+    const step = PAGE_MIGRATIONS.find((m) => m.from === version)
+    if (!step) {
+      return {
+        success: false,
+        error: `No migration registered from schemaVersion ${version} to ${version + 1}`
+      }
+    }
+    current = step.up(current)
+    applied.push(step)
+  }
+
+  return {
+    success: true,
+    page: { ...current, schemaVersion: PAGE_SCHEMA_VERSION },
+    fromVersion,
+    applied
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * page.partials.ts
+ *
+ * CONTENT PARTIALS — Reusable sections and shells referenced from page YAML
+ *
+ * Partials live in `content/<locale>/partials/<name>.yaml` and contain a single
+ * SectionDef or ShellComponent. Pages reference them with `$ref` wherever a
+ * section or a shell component is expected:
+ *
+ *   sections:
+ *     - $ref: partials/cta-interweb
+ *       props:                  # per-ref overrides (shallow-merged over partial props)
+ *         ctaHref: '#contact'
+ *   shell:
+ *     header:
+ *       $ref: partials/header-interweb
+ *
+ * A partial may itself be a `$ref` (with its own overrides); cycles are rejected.
+ *
+ * Used by:
+ * - server/utils/page-loader.ts (resolves via serverQueryContent)
+ * - scripts/guard-pages.ts (resolves via the filesystem, reports dependencies)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import type { RawPage } from './page.migrations'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Key marking a partial reference */
+export const PARTIAL_REF_KEY = '$ref'
+
+/** Valid ref: "partials/<name>" (lowercase, digits, dashes, nested folders) */
+export const PARTIAL_REF_PATTERN = /^partials\/[a-z0-9][a-z0-9-]*(\/[a-z0-9][a-z0-9-]*)*$/
+
+/**
+ * Fields kept from a partial document
+ * (SectionDef + ShellComponent keys — drops content metadata such as `title`)
+ */
+const PARTIAL_FIELDS = [
+  PARTIAL_REF_KEY,
+  'id',
+  'pack',
+  'props',
+  'overrides',
+  'publishAt',
+  'unpublishAt'
+] as const
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Loads a partial document by ref (e.g. "partials/cta-interweb")
+ * Returns null if the partial does not exist
+ */
+export type PartialLoader = (ref: string) => Promise<Record<string, unknown> | null>
+
+export type PartialResolutionResult =
+  | { success: true; page: RawPage; partials: string[] }
+  | { success: false; error: string }
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Check if a value is a partial reference ({ $ref: string, ... })
+ */
+export function isPartialRef(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && PARTIAL_REF_KEY in value
+  )
+}
+
+/**
+ * Check if a ref string has the "partials/<name>" format
+ */
+export function isValidPartialRef(ref: unknown): ref is string {
+  return typeof ref === 'string' && PARTIAL_REF_PATTERN.test(ref)
+}
+
+/**
+ * Keep only SectionDef/ShellComponent fields from a partial document
+ */
+function pickPartialFields(doc: Record<string, unknown>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {}
+  for (const field of PARTIAL_FIELDS) {
+    if (doc[field] !== undefined) picked[field] = doc[field]
+  }
+  return picked
+}
+
+/**
+ * Apply a ref's overrides on top of the resolved partial
+ * - props: shallow merge (ref wins)
+ * - any other field: replaced
+ */
+function applyRefOverrides(
+  resolved: Record<string, unknown>,
+  ref: Record<string, unknown>
+): Record<string, unknown> {
+  const { [PARTIAL_REF_KEY]: _ref, props, ...fields } = ref
+  const merged: Record<string, unknown> = { ...resolved, ...fields }
+
+  if (props && typeof props === 'object') {
+    const baseProps = (resolved.props ?? {}) as Record<string, unknown>
+    merged.props = { ...baseProps, ...(props as Record<string, unknown>) }
+  }
+
+  return merged
+}
+
+// =============================================================================
+// RESOLVER
+// =============================================================================
+
+class PartialResolutionError extends Error {}
+
+/**
+ * Resolve every `$ref` in page.sections[] and page.shell.{header,footer}
+ *
+ * @param page - Raw page object (not mutated)
+ * @param loadPartial - IO callback (content query or filesystem)
+ * @returns Resolved page + refs it depends on (sorted), or an error message
+ */
+export async function resolvePartials(
+  page: RawPage,
+  loadPartial: PartialLoader
+): Promise<PartialResolutionResult> {
+  const dependencies = new Set<string>()
+
+  async function resolveNode(node: unknown, stack: string[]): Promise<unknown> {
+    if (!isPartialRef(node)) return node
+
+    const ref = node[PARTIAL_REF_KEY]
+    if (!isValidPartialRef(ref)) {
+      throw new PartialResolutionError(
+        `Invalid $ref "${String(ref)}" — expected "partials/<name>" (lowercase, digits, dashes)`
+      )
+    }
+
+    if (stack.includes(ref)) {
+      throw new PartialResolutionError(`Partial cycle: ${[...stack, ref].join(' → ')}`)
+    }
+
+    const doc = await loadPartial(ref)
+    if (!doc) {
+      const from = stack.length > 0 ? ` (referenced by ${stack[stack.length - 1]})` : ''
+      throw new PartialResolutionError(`Partial not found: ${ref}${from}`)
+    }
+
+    dependencies.add(ref)
+
+    const resolved = await resolveNode(pickPartialFields(doc), [...stack, ref])
+    return applyRefOverrides(resolved as Record<string, unknown>, node)
+  }
+
+  try {
+    const next: RawPage = { ...page }
+
+    if (Array.isArray(page.sections)) {
+      const sections: unknown[] = []
+      for (const section of page.sections) {
+        sections.push(await resolveNode(section, []))
+      }
+      next.sections = sections
+    }
+
+    if (page.shell && typeof page.shell === 'object') {
+      const shell = { ...(page.shell as Record<string, unknown>) }
+      for (const slot of ['header', 'footer'] as const) {
+        if (slot in shell) shell[slot] = await resolveNode(shell[slot], [])
+      }
+      next.shell = shell
+    }
+
+    return { success: true, page: next, partials: [...dependencies].sort() }
+  } catch (err) {
+    if (err instanceof PartialResolutionError) {
+      return { success: false, error: err.message }
+    }
+    throw err
+  }
+}
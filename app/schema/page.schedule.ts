@@ -0,0 +1,138 @@
+/**
+ * page.schedule.ts
+ *
+ * PUBLISHING WINDOWS — publishAt / unpublishAt on pages and sections
+ *
+ * Both fields are optional ISO 8601 strings (date or date-time):
+ *
+ *   publishAt: 2025-06-01              # live from midnight UTC
+ *   unpublishAt: '2025-06-30T22:00:00Z' # gone after this instant
+ *
+ * A page/section is live when publishAt <= now < unpublishAt.
+ * Date-times without an offset are read in the server's timezone — prefer `Z`.
+ *
+ * Used by:
+ * - app/schema/page.schema.ts + server/utils/page-loader.ts (Zod fields, 404/drop at load time)
+ * - server/utils/sitemap.ts (skips pages outside their window)
+ * - scripts/guard-pages.ts (invalid windows are errors, expired windows are warnings)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+import { z } from 'zod/v4'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** YYYY-MM-DD, optionally followed by THH:mm[:ss[.sss]] and Z or ±HH:mm */
+const PUBLISH_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PublishWindow {
+  publishAt?: string
+  unpublishAt?: string
+}
+
+/**
+ * - scheduled: publishAt is in the future
+ * - live: inside the window (or no window)
+ * - expired: unpublishAt is in the past
+ */
+export type PublishStatus = 'scheduled' | 'live' | 'expired'
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+export const PublishDateSchema = z
+  .string()
+  .refine(
+    (value) => parsePublishDate(value) !== null,
+    'Must be an ISO 8601 date (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)'
+  )
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Parse a publishAt/unpublishAt value
+ *
+ * @returns Date, or null if the value is not a valid ISO 8601 date string
+ */
+export function parsePublishDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !PUBLISH_DATE_PATTERN.test(value)) {
+    return null
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Check a window for invalid dates or an inverted range
+ *
+ * @returns Error message, or null if the window is valid
+ */
+export function getPublishWindowError(window: PublishWindow): string | null {
+  for (const field of ['publishAt', 'unpublishAt'] as const) {
+    const value = window[field]
+    if (value !== undefined && parsePublishDate(value) === null) {
+      return `${field} "${String(value)}" is not an ISO 8601 date (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)`
+    }
+  }
+
+  const publishAt = parsePublishDate(window.publishAt)
+  const unpublishAt = parsePublishDate(window.unpublishAt)
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return `unpublishAt (${window.unpublishAt}) must be after publishAt (${window.publishAt})`
+  }
+
+  return null
+}
+
+/**
+ * Where `now` falls relative to a window (invalid dates are ignored)
+ */
+export function getPublishStatus(window: PublishWindow, now: Date = new Date()): PublishStatus {
+  const publishAt = parsePublishDate(window.publishAt)
+  const unpublishAt = parsePublishDate(window.unpublishAt)
+
+  if (unpublishAt && now >= unpublishAt) return 'expired'
+  if (publishAt && now < publishAt) return 'scheduled'
+  return 'live'
+}
+
+/**
+ * Check if a page/section is inside its publishing window
+ */
+export function isPublished(window: PublishWindow, now: Date = new Date()): boolean {
+  return getPublishStatus(window, now) === 'live'
+}
+
+/**
+ * Earliest publishAt/unpublishAt strictly after `now` (for cache expiry)
+ *
+ * @returns Timestamp in ms, or null if no window changes in the future
+ */
+export function getNextPublishBoundary(
+  windows: PublishWindow[],
+  now: Date = new Date()
+): number | null {
+  let next: number | null = null
+
+  for (const window of windows) {
+    for (const value of [window.publishAt, window.unpublishAt]) {
+      const time = parsePublishDate(value)?.getTime()
+      if (time !== undefined && time > now.getTime() && (next === null || time < next)) {
+        next = time
+      }
+    }
+  }
+
+  return next
+}
@@ -1,4 +1,9 @@
 import { z } from 'zod/v4'
+import { PAGE_SCHEMA_VERSION } from './page.migrations'
+import { PublishDateSchema } from './page.schedule'
+import { ExperimentKeySchema, SectionVariantSchema, getExperimentError } from './page.experiments'
+import { PageAliasSchema } from '../config/redirects'
+import { PageAccessSchema } from './page.access'
 
 // =============================================================================
 // PAGE DEFINITION SCHEMA (Zod) — V4 with Shell System
@@ -71,25 +76,62 @@ export const PageSeoSchema = z.object({
  * - pack: optional override for section-level pack (inherits from page if not set)
  * - props: section-specific props (validated per-section later)
  * - overrides: CSS variable overrides AT SECTION LEVEL for maximum flexibility
+ * - publishAt/unpublishAt: optional publishing window (section dropped outside it)
+ * - experiment/variants: optional A/B test (see page.experiments.ts); once assigned by
+ *   the server, `variants` is gone and `variant` holds the served key
  */
-export const SectionDefSchema = z.object({
-  id: z.string().min(1, 'Section id is required'),
-  pack: z.string().optional(),
-  props: z.record(z.string(), z.unknown()).optional().default({}),
-  overrides: CssOverridesSchema
-})
+export const SectionDefSchema = z
+  .object({
+    id: z.string().min(1, 'Section id is required'),
+    pack: z.string().optional(),
+    props: z.record(z.string(), z.unknown()).optional().default({}),
+    overrides: CssOverridesSchema,
+    publishAt: PublishDateSchema.optional(),
+    unpublishAt: PublishDateSchema.optional(),
+    experiment: ExperimentKeySchema.optional(),
+    variants: z.array(SectionVariantSchema).optional(),
+    variant: z.string().optional()
+  })
+  .superRefine((section, ctx) => {
+    const error = getExperimentError(section)
+    if (error) ctx.addIssue({ code: 'custom', message: error })
+  })
 
 /**
  * PageDef: the complete page definition (V4 with Shell System)
+ * - schemaVersion: always PAGE_SCHEMA_VERSION once loaded (older pages are migrated,
+ *   see page.migrations.ts)
+ * - publishAt/unpublishAt: optional publishing window (404 outside it, see page.schedule.ts)
+ * - updatedAt: last meaningful change (sitemap lastmod, article:modified_time); defaults
+ *   to the last git commit (or mtime) of the page file
+ * - experiments: experiment key → variant served to this visitor (for analytics)
+ * - contentLocale: locale of the content served, set by the server; differs from the
+ *   route locale when the page is not translated (fallback chain, see config/localePaths.ts)
+ * - cacheControl: Cache-Control of a visitor-dependent page (draft preview, protected
+ *   link, experiments), set by the server and applied to the SSR HTML by usePageLoader
+ * - aliases: old slugs of this page, 301-redirected here (see config/redirects.ts)
+ * - draft: 404 except in draft preview (rendered with a banner, always noindex)
+ * - access: signed links / password for p/demo pages (never sent to the client,
+ *   see page.access.ts)
  */
 export const PageDefSchema = z.object({
+  schemaVersion: z.literal(PAGE_SCHEMA_VERSION).optional().default(PAGE_SCHEMA_VERSION),
   kind: PageKindSchema,
   slug: z.string().optional(),
+  aliases: z.array(PageAliasSchema).optional(),
   packKey: z.string().optional(),
   themeOverrides: CssOverridesSchema,
   seo: PageSeoSchema,
   shell: PageShellSchema.optional().default({}),
-  sections: z.array(SectionDefSchema).min(1, 'At least one section is required')
+  sections: z.array(SectionDefSchema).min(1, 'At least one section is required'),
+  publishAt: PublishDateSchema.optional(),
+  unpublishAt: PublishDateSchema.optional(),
+  updatedAt: PublishDateSchema.optional(),
+  draft: z.boolean().optional(),
+  access: PageAccessSchema.optional(),
+  experiments: z.record(z.string(), z.string()).optional(),
+  contentLocale: z.string().optional(),
+  cacheControl: z.string().optional()
 })
 
 // =============================================================================
@@ -107,11 +149,11 @@ export type PageDef = z.infer<typeof PageDefSchema>
 // =============================================================================
 
 /**
- * Force noindex for certain page kinds (p, demo)
+ * Force noindex for certain page kinds (p, demo) and for drafts
  * Centralized SEO rule - used by both server loader and client
  */
-export function forceNoindex(kind: PageKind, pageSeoNoindex?: boolean): boolean {
-  if (NOINDEX_KINDS.includes(kind)) {
+export function forceNoindex(kind: PageKind, pageSeoNoindex?: boolean, draft?: boolean): boolean {
+  if (NOINDEX_KINDS.includes(kind) || draft === true) {
     return true
   }
   return pageSeoNoindex ?? false
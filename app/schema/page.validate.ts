@@ -0,0 +1,807 @@
+/**
+ * page.validate.ts
+ *
+ * PAGE VALIDATION CORE — Every check guard-pages runs on one page
+ *
+ * Takes a page as written in YAML (before migration, kit expansion and $ref
+ * resolution) and reports issues (severity + JSON pointer + message + hint):
+ *
+ * 0. SCHEMA VERSION (migrated in memory), KITS, PARTIALS
+ * 1. STRUCTURE: kind (+ path/kind match), seo, sections array
+ * 2. PACKS: page.packKey + section.pack → must be in KNOWN_PACKS
+ * 3. SECTIONS: id exists + props validate STRICTLY via Zod schema (A/B variants too)
+ * 4. SHELLS: id exists + slot match + props validate STRICTLY via Zod schema
+ * 5. BUSINESS RULES: noindex, strict-private shells, publishing windows,
+ *    preview access, aliases, draft, updatedAt, deprecated / pack mismatch (catalog metadata)
+ *
+ * Kits and partials are read through loaders, so callers pick the source
+ * (filesystem for scripts, content queries for the server).
+ *
+ * Used by:
+ * - scripts/guard-pages.ts (every page file)
+ * - server/utils/page-write.ts (write API + POST /api/__page__/validate)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Safe for Node.js scripts
+ */
+
+// Manifests (data-only, no Vue/Nuxt deps — script-safe)
+import {
+  getSectionManifestEntry,
+  hasSectionId,
+  validateSectionProps
+} from '../sections/sections.manifest'
+import {
+  getShellManifestEntry,
+  hasShellId,
+  isValidShellSlot,
+  validateShellProps
+} from '../shells/shells.manifest'
+import { fitsPack, type CatalogMeta } from '../config/catalogMeta'
+import { getKnownPacks, isKnownPack } from '../packs/packs.manifest'
+import { PAGE_SCHEMA_VERSION, migratePage, type RawPage } from './page.migrations'
+import { expandKit, type KitLoader } from './page.kits'
+import { resolvePartials, type PartialLoader } from './page.partials'
+import {
+  ExperimentKeySchema,
+  SectionVariantSchema,
+  getExperimentError,
+  resolveSectionVariant,
+  type SectionVariant
+} from './page.experiments'
+import {
+  getPublishStatus,
+  getPublishWindowError,
+  parsePublishDate,
+  type PublishWindow
+} from './page.schedule'
+import { PageAccessSchema, getAccessError, isAccessExpired } from './page.access'
+import { PageAliasSchema } from '../config/redirects'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PageSeo {
+  title?: string | null
+  description?: string | null
+  noindex?: boolean | null
+}
+
+interface SectionDef extends PublishWindow {
+  id: string
+  props?: Record<string, unknown>
+  pack?: string
+  overrides?: Record<string, string>
+  experiment?: string
+  variants?: SectionVariant[]
+}
+
+interface ShellComponent {
+  id: string
+  props?: Record<string, unknown>
+}
+
+interface PageShell {
+  header?: ShellComponent | null
+  footer?: ShellComponent | null
+}
+
+/**
+ * A page as written in YAML (nothing validated yet)
+ */
+export interface PageCandidate extends PublishWindow {
+  schemaVersion?: number
+  kind?: string
+  seo?: PageSeo
+  packKey?: string
+  shell?: PageShell
+  sections?: SectionDef[]
+  aliases?: unknown
+  access?: unknown
+  draft?: unknown
+  updatedAt?: unknown
+}
+
+/**
+ * Where kits and partials come from (partials: bound to the page locale,
+ * with default-locale fallback)
+ */
+export interface PageValidationLoaders {
+  loadKit: KitLoader
+  loadPartial: PartialLoader
+}
+
+export interface PageValidationOptions {
+  /** NUXT_PUBLIC_SHELL_STRICT_PRIVATE: p/demo shells must be null */
+  shellStrictPrivate: boolean
+  /** Reference date for publishing windows (default: now) */
+  now?: Date
+}
+
+export type PageIssueSeverity = 'error' | 'warning'
+
+/**
+ * One validation issue, located in the page
+ */
+export interface PageIssue {
+  severity: PageIssueSeverity
+  /**
+   * JSON pointer (RFC 6901) into the page after kit expansion and $ref resolution,
+   * e.g. /sections/2/props/items/0/question — '' for the page itself
+   */
+  pointer: string
+  /** What is wrong */
+  message: string
+  /** How to fix it */
+  hint: string
+}
+
+export interface PageValidationResult {
+  /** Declared kind ('unknown' if missing) */
+  kind: string
+  /** Every issue, in check order */
+  issues: PageIssue[]
+  /** Errors as one-line strings (formatPageIssue) */
+  errors: string[]
+  /** Warnings as one-line strings (formatPageIssue) */
+  warnings: string[]
+  /** Kit the page is expanded from, or null */
+  kit: string | null
+  /** Partials the page depends on (resolved $ref), sorted */
+  partials: string[]
+  /** Valid aliases (old slugs redirected to this page) */
+  aliases: string[]
+  /** draft: true (404 except in draft preview) */
+  draft: boolean
+}
+
+// =============================================================================
+// ISSUES
+// =============================================================================
+
+/**
+ * Collects issues while a page is checked
+ */
+interface IssueReport {
+  error(pointer: string, message: string, hint: string): void
+  warn(pointer: string, message: string, hint: string): void
+}
+
+function createIssueReport(issues: PageIssue[]): IssueReport {
+  return {
+    error: (pointer, message, hint) => issues.push({ severity: 'error', pointer, message, hint }),
+    warn: (pointer, message, hint) => issues.push({ severity: 'warning', pointer, message, hint })
+  }
+}
+
+/**
+ * Build a JSON pointer from path segments (escapes "~" and "/" in each segment)
+ *
+ *   toPointer('sections', 0, 'props', ...['items', 0, 'q']) → '/sections/0/props/items/0/q'
+ *   toPointer('props', 'a.b') → '/props/a.b' (one segment: keys may contain dots)
+ */
+export function toPointer(...segments: PropertyKey[]): string {
+  return segments
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('')
+}
+
+/**
+ * One-line form of an issue (guard-pages output, API statusMessage)
+ */
+export function formatPageIssue(issue: PageIssue): string {
+  return `${issue.message} — ${issue.hint}`
+}
+
+// =============================================================================
+// SHELL NORMALIZATION (mirrors runtime logic)
+// =============================================================================
+
+// Old string format is upgraded beforehand by migratePage (see page.migrations.ts)
+function normalizeShellComponent(raw: ShellComponent | null | undefined): ShellComponent | null {
+  if (raw === null || raw === undefined || typeof raw !== 'object') {
+    return null
+  }
+  return {
+    id: raw.id,
+    props: raw.props ?? {}
+  }
+}
+
+// =============================================================================
+// A/B EXPERIMENTS
+// =============================================================================
+
+const EXPERIMENT_HINT = 'see "A/B Experiments" in docs/kits/README.md'
+
+/**
+ * Check experiment key + variants (format, weights, consistency)
+ *
+ * @returns Issue (pointer relative to the section), or null if valid
+ */
+function checkExperiment(
+  section: SectionDef
+): { pointer: string; message: string; hint: string } | null {
+  if (
+    section.experiment !== undefined &&
+    !ExperimentKeySchema.safeParse(section.experiment).success
+  ) {
+    return {
+      pointer: toPointer('experiment'),
+      message: `Invalid experiment key "${section.experiment}"`,
+      hint: 'lowercase letters, digits and dashes'
+    }
+  }
+
+  if (section.variants !== undefined) {
+    if (!Array.isArray(section.variants)) {
+      return {
+        pointer: toPointer('variants'),
+        message: 'variants must be a list',
+        hint: EXPERIMENT_HINT
+      }
+    }
+    for (let v = 0; v < section.variants.length; v++) {
+      const result = SectionVariantSchema.safeParse(section.variants[v])
+      if (!result.success) {
+        const issue = result.error.issues[0]
+        const path = issue?.path.length ? `${issue.path.join('.')}: ` : ''
+        return {
+          pointer: toPointer('variants', v, ...(issue?.path ?? [])),
+          message: `variants[${v}]: ${path}${issue?.message ?? 'Invalid variant'}`,
+          hint: EXPERIMENT_HINT
+        }
+      }
+    }
+  }
+
+  const error = getExperimentError(section)
+  return error ? { pointer: toPointer('variants'), message: error, hint: EXPERIMENT_HINT } : null
+}
+
+// =============================================================================
+// PUBLISHING WINDOWS
+// =============================================================================
+
+/**
+ * Check a publishAt/unpublishAt window (page or section)
+ * Invalid → error, expired → warning (the page 404s / the section is dropped)
+ */
+function checkPublishWindow(
+  pointer: string,
+  label: string,
+  window: PublishWindow,
+  now: Date,
+  report: IssueReport
+): void {
+  const windowError = getPublishWindowError(window)
+  if (windowError) {
+    report.error(
+      pointer,
+      `${label}: ${windowError}`,
+      'use ISO 8601 dates, publishAt before unpublishAt'
+    )
+    return
+  }
+
+  if (getPublishStatus(window, now) === 'expired') {
+    report.warn(
+      `${pointer}/unpublishAt`,
+      `${label}: publishing window expired on ${window.unpublishAt}`,
+      'no longer served, remove it or update unpublishAt'
+    )
+  }
+}
+
+/**
+ * Check a preview access block (declared on the page file itself)
+ * Invalid or on a public kind → error, expired → warning (every link is refused)
+ */
+function checkAccess(kind: string, access: unknown, report: IssueReport): void {
+  const kindError = getAccessError(kind, access)
+  if (kindError) {
+    report.error('/access', kindError, 'remove the access block (site pages are public)')
+    return
+  }
+  if (access === undefined) return
+
+  const parsed = PageAccessSchema.safeParse(access)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      report.error(
+        toPointer('access', ...issue.path),
+        `access${issue.path.length ? `.${issue.path.join('.')}` : ''}: ${issue.message}`,
+        'see "Preview Links" in docs/kits/README.md'
+      )
+    }
+    return
+  }
+
+  if (isAccessExpired(parsed.data)) {
+    report.warn(
+      '/access/expiresAt',
+      `access.expiresAt (${parsed.data.expiresAt}) has passed — every link shows "link expired"`,
+      'remove the page or update expiresAt'
+    )
+  } else if (!parsed.data.token && !parsed.data.passwordHash && !parsed.data.expiresAt) {
+    report.warn(
+      '/access',
+      'access block has no effect (token: false, no passwordHash, no expiresAt)',
+      'remove the access block or set token, passwordHash or expiresAt'
+    )
+  }
+}
+
+/**
+ * Check page aliases (old slugs of the same kind, redirected with a 301)
+ *
+ * @returns Valid aliases (invalid ones are reported as errors)
+ */
+function checkAliases(aliases: unknown, slug: string, report: IssueReport): string[] {
+  if (aliases === undefined) return []
+  if (!Array.isArray(aliases)) {
+    report.error(
+      '/aliases',
+      'aliases must be a list of slugs',
+      'e.g. aliases: [tarifs, services/prix]'
+    )
+    return []
+  }
+
+  const valid: string[] = []
+  aliases.forEach((alias, i) => {
+    const result = PageAliasSchema.safeParse(alias)
+    if (!result.success) {
+      report.error(
+        `/aliases/${i}`,
+        `aliases[${i}]: ${result.error.issues[0]?.message ?? 'invalid alias'}`,
+        'fix or remove the alias'
+      )
+    } else if (alias === slug) {
+      report.error(`/aliases/${i}`, `aliases[${i}]: "${alias}" is the page's own slug`, 'remove it')
+    } else {
+      valid.push(result.data)
+    }
+  })
+  return valid
+}
+
+/**
+ * Catalog metadata warnings: deprecated entries, entries styled for other packs
+ *
+ * @param pack - Effective pack (section.pack ?? page.packKey)
+ */
+function checkCatalogMeta(
+  label: string,
+  meta: CatalogMeta,
+  pack: string | undefined,
+  pointer: string,
+  report: IssueReport
+): void {
+  if (meta.deprecated) {
+    report.warn(pointer, `${label}: Deprecated`, meta.deprecated)
+  }
+  if (!fitsPack(meta, pack)) {
+    report.warn(
+      pointer,
+      `${label}: Not styled for ${pack ? `pack "${pack}"` : 'pages without a pack'}`,
+      `use it with pack: ${meta.packs!.join(', ')}`
+    )
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validate one page as a complete entity (same checks as pnpm guard:pages)
+ *
+ * @param rawPage - Page as written in YAML
+ * @param target - Kind and slug from the file path (the declared kind must match)
+ * @param loaders - Kit + partial loaders
+ * @param options - Strict-private shells, reference date
+ */
+export async function validatePageDefinition(
+  rawPage: PageCandidate,
+  target: { kind: string; slug: string },
+  loaders: PageValidationLoaders,
+  options: PageValidationOptions
+): Promise<PageValidationResult> {
+  const pathKind = target.kind
+  const slug = target.slug
+  const issues: PageIssue[] = []
+  const report = createIssueReport(issues)
+
+  const done = (
+    result: Omit<PageValidationResult, 'issues' | 'errors' | 'warnings'>
+  ): PageValidationResult => ({
+    ...result,
+    issues,
+    errors: issues.filter((i) => i.severity === 'error').map(formatPageIssue),
+    warnings: issues.filter((i) => i.severity === 'warning').map(formatPageIssue)
+  })
+
+  // -------------------------------------------------------------------------
+  // 0. SCHEMA VERSION (migrate in memory, exactly like loadPage)
+  // -------------------------------------------------------------------------
+
+  const migration = migratePage(rawPage as RawPage)
+
+  if (!migration.success) {
+    report.error(
+      '/schemaVersion',
+      `schemaVersion: ${migration.error}`,
+      `use a schemaVersion up to ${PAGE_SCHEMA_VERSION} (see app/schema/page.migrations.ts)`
+    )
+    return done({ kind: pathKind, kit: null, partials: [], aliases: [], draft: false })
+  }
+
+  if (migration.applied.length > 0) {
+    report.warn(
+      '/schemaVersion',
+      `schemaVersion ${migration.fromVersion} is outdated (current: ${PAGE_SCHEMA_VERSION})`,
+      'run pnpm content:migrate to update the file'
+    )
+  }
+
+  const expansion = await expandKit(migration.page, loaders.loadKit)
+
+  if (!expansion.success) {
+    report.error('/kit', `kit: ${expansion.error}`, 'use a kit from content/kits (docs/kits)')
+    return done({ kind: pathKind, kit: null, partials: [], aliases: [], draft: false })
+  }
+
+  const kit = expansion.kit
+
+  if (expansion.unresolved.length > 0) {
+    report.error(
+      '/vars',
+      `Unresolved placeholder(s) from kit "${kit}": ` +
+        `${expansion.unresolved.map((name) => `{{${name}}}`).join(', ')}`,
+      'add them to vars'
+    )
+  }
+  if (expansion.unusedVars.length > 0) {
+    report.warn(
+      '/vars',
+      `Unused vars (no matching placeholder): ${expansion.unusedVars.join(', ')}`,
+      'remove them from vars'
+    )
+  }
+  if (!kit && (rawPage as RawPage).vars !== undefined) {
+    report.warn('/vars', 'vars is ignored without kit', 'add kit or remove vars')
+  }
+
+  const resolution = await resolvePartials(expansion.page, loaders.loadPartial)
+
+  if (!resolution.success) {
+    report.error(
+      '',
+      `$ref: ${resolution.error}`,
+      'reference an existing partial (content/<locale>/partials/<name>.yaml)'
+    )
+    return done({ kind: pathKind, kit, partials: [], aliases: [], draft: false })
+  }
+
+  const page = resolution.page as PageCandidate
+  const partials = resolution.partials
+
+  // -------------------------------------------------------------------------
+  // 1. STRUCTURE VALIDATION
+  // -------------------------------------------------------------------------
+
+  // kind
+  if (!page.kind) {
+    report.error('/kind', 'Missing required field: kind', `add kind: ${pathKind}`)
+  } else if (!['site', 'p', 'demo'].includes(page.kind)) {
+    report.error('/kind', `Invalid kind "${page.kind}"`, 'must be one of: site, p, demo')
+  } else if (page.kind !== pathKind) {
+    report.error(
+      '/kind',
+      `Path/kind mismatch: file is in "${pathKind}" folder but kind is "${page.kind}"`,
+      `set kind: ${pathKind} or move the file to pages/${page.kind}/`
+    )
+  }
+
+  // seo
+  if (!page.seo?.title) {
+    report.error('/seo/title', 'Missing required field: seo.title', 'add seo.title')
+  }
+  if (!page.seo?.description) {
+    report.error(
+      '/seo/description',
+      'Missing required field: seo.description',
+      'add seo.description'
+    )
+  }
+
+  // sections
+  if (!page.sections || !Array.isArray(page.sections) || page.sections.length === 0) {
+    report.error('/sections', 'Missing or empty sections array', 'at least 1 section required')
+  }
+
+  // -------------------------------------------------------------------------
+  // 2. PACKS VALIDATION
+  // -------------------------------------------------------------------------
+
+  const knownPacks = getKnownPacks()
+  const packsHint = `known packs: ${[...knownPacks].join(', ')}`
+
+  if (page.packKey && !isKnownPack(page.packKey)) {
+    report.error(
+      '/packKey',
+      `Unknown packKey "${page.packKey}"`,
+      `${packsHint}. Add to app/packs/packs.manifest.ts KNOWN_PACKS`
+    )
+  }
+
+  // -------------------------------------------------------------------------
+  // 3. SECTIONS VALIDATION (id + pack + STRICT props validation)
+  // -------------------------------------------------------------------------
+
+  const sections = Array.isArray(page.sections) ? page.sections : []
+  // Experiment key → variant keys (sections sharing an experiment must match)
+  const experimentKeys = new Map<string, string>()
+
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i]
+
+    // Check section ID exists
+    if (!section?.id) {
+      report.error(
+        toPointer('sections', i, 'id'),
+        `Section[${i}]: Missing id`,
+        'add an id registered in app/sections/sections.manifest.ts'
+      )
+      continue
+    }
+
+    // A/B experiment: validate structure, then each variant as its own section
+    // (variant fields point to the variant when it sets them, else to the section)
+    const candidates: Array<{
+      label: string
+      def: SectionDef
+      pointerOf: (field: keyof SectionDef, path?: PropertyKey[]) => string
+    }> = []
+    const sectionPointer = (field: keyof SectionDef, path: PropertyKey[] = []) =>
+      toPointer('sections', i, field, ...path)
+
+    if (section.experiment !== undefined || section.variants !== undefined) {
+      const experimentIssue = checkExperiment(section)
+      if (experimentIssue) {
+        report.error(
+          toPointer('sections', i) + experimentIssue.pointer,
+          `Section[${i}] (${section.id}): ${experimentIssue.message}`,
+          experimentIssue.hint
+        )
+        continue
+      }
+
+      const keys = section.variants!.map((v) => v.key).join(', ')
+      const knownKeys = experimentKeys.get(section.experiment!)
+      if (knownKeys !== undefined && knownKeys !== keys) {
+        report.error(
+          toPointer('sections', i, 'variants'),
+          `Section[${i}] (${section.id}): experiment "${section.experiment}" variants [${keys}] ` +
+            `differ from another section using it [${knownKeys}]`,
+          'use the same variant keys'
+        )
+      }
+      experimentKeys.set(section.experiment!, keys)
+
+      section.variants!.forEach((variant, v) => {
+        const def = resolveSectionVariant(section, variant.key) as SectionDef
+        const own = variant as Partial<SectionDef>
+        candidates.push({
+          label: `Section[${i}] (${def.id}, variant ${variant.key})`,
+          def,
+          pointerOf: (field, path = []) => {
+            const head = path[0]
+            const setByVariant =
+              field === 'props'
+                ? head !== undefined && String(head) in (own.props ?? {})
+                : own[field] !== undefined
+            return setByVariant
+              ? toPointer('sections', i, 'variants', v, field, ...path)
+              : sectionPointer(field, path)
+          }
+        })
+      })
+    } else {
+      candidates.push({
+        label: `Section[${i}] (${section.id})`,
+        def: section,
+        pointerOf: sectionPointer
+      })
+    }
+
+    for (const { label, def, pointerOf } of candidates) {
+      if (!hasSectionId(def.id)) {
+        report.error(
+          pointerOf('id'),
+          `${label}: Unknown section id`,
+          `register in app/sections/sections.manifest.ts or create app/sections/${def.id}/`
+        )
+        continue // Skip props validation if section doesn't exist
+      }
+
+      // Check section pack
+      if (def.pack && !isKnownPack(def.pack)) {
+        report.error(pointerOf('pack'), `${label}: Unknown pack "${def.pack}"`, packsHint)
+      }
+      checkCatalogMeta(
+        label,
+        getSectionManifestEntry(def.id)!,
+        def.pack ?? page.packKey,
+        pointerOf('id'),
+        report
+      )
+
+      // STRICT props validation via Zod schema (one issue per invalid prop)
+      const propsToValidate = def.props ?? {}
+      const propsResult = validateSectionProps(def.id, propsToValidate)
+
+      if (!propsResult.success) {
+        for (const issue of propsResult.issues) {
+          report.error(
+            pointerOf('props', issue.segments),
+            `${label}: Invalid props — ${issue.path ? `${issue.path}: ` : ''}${issue.message}`,
+            `fix props to match the ${def.id} schema (app/sections/sections.manifest.ts)`
+          )
+        }
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // 4. SHELLS VALIDATION (id + slot + STRICT props validation)
+  // -------------------------------------------------------------------------
+
+  const shell = page.shell ?? {}
+
+  for (const slot of ['header', 'footer'] as const) {
+    const rawShellDef = shell[slot]
+
+    // Non-object shells are only valid before migration (schemaVersion < 4)
+    if (rawShellDef !== null && rawShellDef !== undefined && typeof rawShellDef !== 'object') {
+      report.error(
+        toPointer('shell', slot),
+        `shell.${slot}: Expected null or { id, props } — got ${typeof rawShellDef}`,
+        `use shell.${slot}: null or { id: ${slot}.default }`
+      )
+      continue
+    }
+
+    // Normalize shell component
+    const shellComponent = normalizeShellComponent(rawShellDef)
+
+    // null is valid
+    if (shellComponent === null) continue
+
+    const shellId = shellComponent.id
+    if (!shellId) continue
+
+    // Check shell ID exists
+    if (!hasShellId(shellId)) {
+      report.error(
+        toPointer('shell', slot, 'id'),
+        `shell.${slot}: Unknown shell id "${shellId}"`,
+        `register in app/shells/shells.manifest.ts or create app/shells/${shellId}/`
+      )
+      continue
+    }
+
+    // Check slot/prefix match
+    if (!isValidShellSlot(shellId, slot)) {
+      report.error(
+        toPointer('shell', slot, 'id'),
+        `shell.${slot}: Invalid shell "${shellId}"`,
+        `${slot} slot requires shell id starting with "${slot}."`
+      )
+    }
+    checkCatalogMeta(
+      `shell.${slot} (${shellId})`,
+      getShellManifestEntry(shellId)!,
+      page.packKey,
+      toPointer('shell', slot, 'id'),
+      report
+    )
+
+    // STRICT props validation via Zod schema (one issue per invalid prop)
+    const propsToValidate = shellComponent.props ?? {}
+    const propsResult = validateShellProps(shellId, propsToValidate)
+
+    if (!propsResult.success) {
+      for (const issue of propsResult.issues) {
+        report.error(
+          toPointer('shell', slot, 'props', ...issue.segments),
+          `shell.${slot} (${shellId}): Invalid props — ${issue.path ? `${issue.path}: ` : ''}${issue.message}`,
+          `fix props to match the ${shellId} schema (app/shells/shells.manifest.ts)`
+        )
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // 5. BUSINESS RULES
+  // -------------------------------------------------------------------------
+
+  const kind = page.kind ?? 'unknown'
+  const isPrivateKind = kind === 'p' || kind === 'demo'
+  const shellStrictMode = options.shellStrictPrivate
+
+  // noindex warning for p/demo
+  if (isPrivateKind && page.seo?.noindex === false) {
+    report.warn(
+      '/seo/noindex',
+      `seo.noindex is explicitly false, but ${kind} pages are ALWAYS noindex at runtime`,
+      'remove noindex: false to avoid confusion'
+    )
+  }
+
+  // Shell strict mode for p/demo
+  const headerComponent = normalizeShellComponent(shell.header)
+  const footerComponent = normalizeShellComponent(shell.footer)
+
+  for (const [slot, component] of [
+    ['header', headerComponent],
+    ['footer', footerComponent]
+  ] as const) {
+    if (!isPrivateKind || !component?.id) continue
+
+    if (shellStrictMode) {
+      report.error(
+        toPointer('shell', slot),
+        `shell.${slot} must be null for ${kind} pages when NUXT_PUBLIC_SHELL_STRICT_PRIVATE=true`,
+        `set shell.${slot}: null`
+      )
+    } else {
+      // Flex mode: warn only
+      report.warn(
+        toPointer('shell', slot),
+        `${kind} page has shell.${slot}`,
+        'consider using null for cleaner landing pages'
+      )
+    }
+  }
+
+  // Publishing windows (page 404s / sections dropped outside them)
+  const now = options.now ?? new Date()
+  checkPublishWindow('', 'page', page, now, report)
+  sections.forEach((section, i) => {
+    if (section?.id) {
+      checkPublishWindow(
+        toPointer('sections', i),
+        `Section[${i}] (${section.id})`,
+        section,
+        now,
+        report
+      )
+    }
+  })
+
+  // Last change (sitemap lastmod, article:modified_time), declared on the page file
+  const { updatedAt } = migration.page as PageCandidate
+  if (updatedAt !== undefined && parsePublishDate(updatedAt) === null) {
+    report.error(
+      '/updatedAt',
+      `updatedAt "${String(updatedAt)}" is not an ISO 8601 date`,
+      'use YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ, or remove it (last commit date is used)'
+    )
+  }
+
+  // Preview access (signed links / password, enforced by loadPage)
+  checkAccess(kind, (migration.page as PageCandidate).access, report)
+
+  // Aliases (301 to this page, chains/collisions checked across pages by guard-pages)
+  const aliases = checkAliases(page.aliases, slug, report)
+
+  // Draft (404 except in draft preview, listed per locale by guard-pages)
+  if (page.draft !== undefined && typeof page.draft !== 'boolean') {
+    report.error('/draft', 'draft must be true or false', 'use draft: true or remove it')
+  }
+  const draft = page.draft === true
+
+  return done({ kind, kit, partials, aliases, draft })
+}
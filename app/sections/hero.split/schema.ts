@@ -1,4 +1,5 @@
 import { z } from 'zod/v4'
+import { imageRegistry } from '../../schema/page.images'
 
 // =============================================================================
 // hero.split — Schema & Fixtures
@@ -23,7 +24,12 @@ export const HeroSplitSchema = z.object({
   subtitle: z.string().optional(),
   ctaLabel: z.string().optional(),
   ctaHref: z.string().optional(),
-  imageUrl: z.string().url('Must be a valid URL').optional()
+  // Rendered with the title as alt text
+  imageUrl: z
+    .string()
+    .url('Must be a valid URL')
+    .optional()
+    .register(imageRegistry, { alt: 'title' })
 })
 
 /**
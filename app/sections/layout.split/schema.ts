@@ -1,4 +1,5 @@
 import { z } from 'zod/v4'
+import { imageRegistry } from '../../schema/page.images'
 
 // =============================================================================
 // layout.split — Schema & Fixtures
@@ -37,10 +38,10 @@ export const LayoutSplitSchema = z.object({
   left: z.string().optional(),
   /** Right column content (HTML) */
   right: z.string().optional(),
-  /** Left column image URL */
-  leftImage: z.string().url().optional(),
-  /** Right column image URL */
-  rightImage: z.string().url().optional()
+  /** Left column image URL (decorative: alt="") */
+  leftImage: z.string().url().optional().register(imageRegistry, {}),
+  /** Right column image URL (decorative: alt="") */
+  rightImage: z.string().url().optional().register(imageRegistry, {})
 })
 
 /**
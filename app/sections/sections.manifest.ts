@@ -6,10 +6,13 @@
  *
  * Used by:
  * - scripts/guard-pages.mjs (CI validation)
+ * - server/utils/page-loader.ts (server-side props validation)
  * - SectionRegistry.ts (runtime registration)
+ * - scripts/build-catalog.ts (public/catalog.json, with the metadata below)
  */
 
 import type { ZodType } from 'zod/v4'
+import type { CatalogMeta, SectionCategory } from '../config/catalogMeta'
 
 // Import schemas from individual section folders
 import { HeroSplitSchema, fixtures as heroSplitFixtures } from './hero.split/schema'
@@ -51,7 +54,7 @@ import {
 // SECTION MANIFEST ENTRY
 // =============================================================================
 
-export interface SectionManifestEntry {
+export interface SectionManifestEntry extends CatalogMeta<SectionCategory> {
   id: string
   schema: ZodType
   fixtures: unknown[]
@@ -62,22 +65,102 @@ export interface SectionManifestEntry {
 // =============================================================================
 
 export const SECTIONS_MANIFEST: SectionManifestEntry[] = [
-  { id: 'hero.split', schema: HeroSplitSchema, fixtures: heroSplitFixtures },
-  { id: 'faq.simple', schema: FaqSimpleSchema, fixtures: faqSimpleFixtures },
-  { id: 'layout.stack', schema: LayoutStackSchema, fixtures: layoutStackFixtures },
-  { id: 'layout.split', schema: LayoutSplitSchema, fixtures: layoutSplitFixtures },
+  {
+    id: 'hero.split',
+    schema: HeroSplitSchema,
+    fixtures: heroSplitFixtures,
+    description: 'Headline, text and call to action next to an image',
+    category: 'hero',
+    tags: ['headline', 'cta', 'image']
+  },
+  {
+    id: 'faq.simple',
+    schema: FaqSimpleSchema,
+    fixtures: faqSimpleFixtures,
+    description: 'List of questions and answers',
+    category: 'faq',
+    tags: ['questions', 'accordion']
+  },
+  {
+    id: 'layout.stack',
+    schema: LayoutStackSchema,
+    fixtures: layoutStackFixtures,
+    description: 'Vertical stack of text blocks with configurable spacing and alignment',
+    category: 'layout',
+    tags: ['primitive', 'text', 'vertical']
+  },
+  {
+    id: 'layout.split',
+    schema: LayoutSplitSchema,
+    fixtures: layoutSplitFixtures,
+    description: 'Two columns (text or image) with configurable ratio, gap and alignment',
+    category: 'layout',
+    tags: ['primitive', 'columns', 'image']
+  },
   // Interweb sections
-  { id: 'interweb.hero', schema: interwebHeroSchema, fixtures: interwebHeroFixtures },
-  { id: 'interweb.features', schema: interwebFeaturesSchema, fixtures: interwebFeaturesFixtures },
-  { id: 'interweb.bento', schema: interwebBentoSchema, fixtures: interwebBentoFixtures },
+  {
+    id: 'interweb.hero',
+    schema: interwebHeroSchema,
+    fixtures: interwebHeroFixtures,
+    description: 'Status pill, display headline, call to action and trust indicators',
+    category: 'hero',
+    tags: ['headline', 'cta', 'trust'],
+    packs: ['interweb']
+  },
+  {
+    id: 'interweb.features',
+    schema: interwebFeaturesSchema,
+    fixtures: interwebFeaturesFixtures,
+    description: 'Grid of feature cards with icons and gradient backgrounds',
+    category: 'features',
+    tags: ['cards', 'icons', 'grid'],
+    packs: ['interweb']
+  },
+  {
+    id: 'interweb.bento',
+    schema: interwebBentoSchema,
+    fixtures: interwebBentoFixtures,
+    description: '2x2 bento grid of selling points with custom visuals',
+    category: 'features',
+    tags: ['cards', 'grid', 'visuals'],
+    packs: ['interweb']
+  },
   {
     id: 'interweb.testimonials',
     schema: interwebTestimonialsSchema,
-    fixtures: interwebTestimonialsFixtures
+    fixtures: interwebTestimonialsFixtures,
+    description: 'Customer testimonials with overall rating, name and role',
+    category: 'social-proof',
+    tags: ['testimonials', 'quotes', 'reviews'],
+    packs: ['interweb']
   },
-  { id: 'interweb.recap', schema: interwebRecapSchema, fixtures: interwebRecapFixtures },
-  { id: 'interweb.results', schema: interwebResultsSchema, fixtures: interwebResultsFixtures },
-  { id: 'interweb.contact', schema: interwebContactSchema, fixtures: interwebContactFixtures }
+  {
+    id: 'interweb.recap',
+    schema: interwebRecapSchema,
+    fixtures: interwebRecapFixtures,
+    description: 'KPI cards (value, unit, description)',
+    category: 'results',
+    tags: ['kpi', 'numbers', 'summary'],
+    packs: ['interweb']
+  },
+  {
+    id: 'interweb.results',
+    schema: interwebResultsSchema,
+    fixtures: interwebResultsFixtures,
+    description: 'Case studies with before / after and result',
+    category: 'results',
+    tags: ['case-studies', 'before-after'],
+    packs: ['interweb']
+  },
+  {
+    id: 'interweb.contact',
+    schema: interwebContactSchema,
+    fixtures: interwebContactFixtures,
+    description: 'Contact form with highlights and a direct contact card',
+    category: 'contact',
+    tags: ['form', 'lead', 'email'],
+    packs: ['interweb']
+  }
 ]
 
 // =============================================================================
@@ -99,15 +182,25 @@ export function getSectionManifestEntry(id: string): SectionManifestEntry | null
   return SECTIONS_MANIFEST.find((s) => s.id === id) ?? null
 }
 
-/** Validate props against a section's schema */
+/**
+ * Validate props against a section's schema (error: joined summary, issues: one per
+ * Zod issue — `path` dot-joined for messages, `segments` as-is for JSON pointers)
+ */
 export function validateSectionProps(
   id: string,
   props: unknown
-): { success: true; data: unknown } | { success: false; error: string } {
+):
+  | { success: true; data: unknown }
+  | {
+      success: false
+      error: string
+      issues: Array<{ path: string; segments: PropertyKey[]; message: string }>
+    } {
   const entry = getSectionManifestEntry(id)
 
   if (!entry) {
-    return { success: false, error: `Section "${id}" not found in manifest` }
+    const message = `Section "${id}" not found in manifest`
+    return { success: false, error: message, issues: [{ path: '', segments: [], message }] }
   }
 
   const result = entry.schema.safeParse(props)
@@ -116,6 +209,11 @@ export function validateSectionProps(
     return { success: true, data: result.data }
   }
 
-  const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
-  return { success: false, error: issues }
+  const issues = result.error.issues.map((i) => ({
+    path: i.path.join('.'),
+    segments: i.path,
+    message: i.message
+  }))
+  const error = issues.map((i) => `${i.path}: ${i.message}`).join('; ')
+  return { success: false, error, issues }
 }
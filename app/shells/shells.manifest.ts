@@ -6,10 +6,13 @@
  *
  * Used by:
  * - scripts/guard-pages.mjs (CI validation)
+ * - server/utils/page-loader.ts (server-side props validation)
  * - ShellRegistry.ts (runtime registration)
+ * - scripts/build-catalog.ts (public/catalog.json, with the metadata below)
  */
 
 import type { ZodType } from 'zod/v4'
+import type { CatalogMeta, ShellCategory } from '../config/catalogMeta'
 
 // Import schemas from individual shell folders
 import {
@@ -40,7 +43,7 @@ import {
 
 export type ShellSlot = 'header' | 'footer'
 
-export interface ShellManifestEntry {
+export interface ShellManifestEntry extends CatalogMeta<ShellCategory> {
   id: string
   slot: ShellSlot
   schema: ZodType
@@ -56,31 +59,48 @@ export const SHELLS_MANIFEST: ShellManifestEntry[] = [
     id: 'header.default',
     slot: 'header',
     schema: headerDefaultSchema,
-    fixtures: headerDefaultFixtures
+    fixtures: headerDefaultFixtures,
+    description: 'Logo and navigation links',
+    category: 'standard',
+    tags: ['navigation', 'logo']
   },
   {
     id: 'header.minimal',
     slot: 'header',
     schema: headerMinimalSchema,
-    fixtures: headerMinimalFixtures
+    fixtures: headerMinimalFixtures,
+    description: 'Logo only, no navigation (landing pages)',
+    category: 'minimal',
+    tags: ['logo', 'landing']
   },
   {
     id: 'header.interweb',
     slot: 'header',
     schema: headerInterwebSchema,
-    fixtures: headerInterwebFixtures
+    fixtures: headerInterwebFixtures,
+    description: 'Glass navigation bar with centered links, theme toggle and call to action',
+    category: 'branded',
+    tags: ['navigation', 'cta', 'dark-mode'],
+    packs: ['interweb']
   },
   {
     id: 'footer.default',
     slot: 'footer',
     schema: footerDefaultSchema,
-    fixtures: footerDefaultFixtures
+    fixtures: footerDefaultFixtures,
+    description: 'Copyright line and links',
+    category: 'standard',
+    tags: ['copyright', 'links']
   },
   {
     id: 'footer.interweb',
     slot: 'footer',
     schema: footerInterwebSchema,
-    fixtures: footerInterwebFixtures
+    fixtures: footerInterwebFixtures,
+    description: 'Glass card with brand, tagline, copyright and links',
+    category: 'branded',
+    tags: ['copyright', 'links', 'brand'],
+    packs: ['interweb']
   }
 ]
 
@@ -115,15 +135,25 @@ export function isValidShellSlot(shellId: string, slot: ShellSlot): boolean {
   return shellId.startsWith(`${slot}.`)
 }
 
-/** Validate props against a shell's schema */
+/**
+ * Validate props against a shell's schema (error: joined summary, issues: one per
+ * Zod issue — `path` dot-joined for messages, `segments` as-is for JSON pointers)
+ */
 export function validateShellProps(
   id: string,
   props: unknown
-): { success: true; data: unknown } | { success: false; error: string } {
+):
+  | { success: true; data: unknown }
+  | {
+      success: false
+      error: string
+      issues: Array<{ path: string; segments: PropertyKey[]; message: string }>
+    } {
   const entry = getShellManifestEntry(id)
 
   if (!entry) {
-    return { success: false, error: `Shell "${id}" not found in manifest` }
+    const message = `Shell "${id}" not found in manifest`
+    return { success: false, error: message, issues: [{ path: '', segments: [], message }] }
   }
 
   const result = entry.schema.safeParse(props)
@@ -132,6 +162,11 @@ export function validateShellProps(
     return { success: true, data: result.data }
   }
 
-  const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
-  return { success: false, error: issues }
+  const issues = result.error.issues.map((i) => ({
+    path: i.path.join('.'),
+    segments: i.path,
+    message: i.message
+  }))
+  const error = issues.map((i) => `${i.path}: ${i.message}`).join('; ')
+  return { success: false, error, issues }
 }
@@ -1,11 +1,18 @@
 import type { ZodType } from 'zod/v4'
+import { imageRegistry, type ImageMeta } from '../schema/page.images'
 
 // =============================================================================
 // ZOD SHAPE EXTRACTOR — Converts Zod schemas to simplified JSON shapes
 // =============================================================================
 //
 // Used by catalog generator to export machine-readable schema descriptions.
-// Does NOT cover all Zod features — focuses on common patterns.
+// Covers the constructs section/shell schemas use: primitives, enums, literals,
+// unions, records, arrays, objects, wrappers (optional/nullable/default...),
+// length/size/value constraints, regex patterns, string formats,
+// `.describe()` descriptions and image marks (imageRegistry, see page.images.ts).
+//
+// Anything else (lazy, tuple, intersection, transform, refine...) is listed in
+// `unsupported` — the shape is never silently lossy.
 //
 // =============================================================================
 
@@ -13,14 +20,66 @@ import type { ZodType } from 'zod/v4'
  * Simplified property shape for catalog export
  */
 export interface PropShape {
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'unknown'
+  type:
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'null'
+    | 'enum'
+    | 'literal'
+    | 'union'
+    | 'record'
+    | 'array'
+    | 'object'
+    | 'unknown'
   optional: boolean
+  /** Accepts null (.nullable()) */
+  nullable?: boolean
   default?: string | number | boolean | null
   description?: string
+  /** For enums and literals: allowed values */
+  values?: Array<string | number | boolean | null>
+  /** For unions: one shape per option */
+  variants?: PropShape[]
+  /** For discriminated unions: the discriminator key */
+  discriminator?: string
+  /** For records: shape of the keys (omitted for plain strings) */
+  keyShape?: PropShape
+  /** For records: shape of the values */
+  valueShape?: PropShape
   /** For arrays: shape of array items */
   items?: PropShape
   /** For objects: nested properties */
   properties?: Record<string, PropShape>
+  /** Strings: length constraints */
+  minLength?: number
+  maxLength?: number
+  /** Strings: regex pattern (source) */
+  pattern?: string
+  /** Strings: built-in format (url, email, uuid...); numbers: int formats */
+  format?: string
+  /** Numbers: value constraints */
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  /** Arrays: size constraints */
+  minItems?: number
+  maxItems?: number
+  /** Strings: image URL (imageRegistry mark, see page.images.ts) */
+  image?: ImageMeta
+  /** For unsupported constructs: the Zod type name (e.g. 'lazy') */
+  zodType?: string
+}
+
+/**
+ * A Zod construct the shape cannot describe
+ */
+export interface UnsupportedConstruct {
+  /** Property path: dots for objects, [] for array items, |n for union options */
+  path: string
+  /** Zod type name, or 'refine' for custom refinements */
+  zodType: string
 }
 
 /**
@@ -29,6 +88,48 @@ export interface PropShape {
 export interface SchemaShape {
   type: 'object'
   properties: Record<string, PropShape>
+  /** Constructs described as 'unknown' or dropped (empty when the shape is exact) */
+  unsupported: UnsupportedConstruct[]
+}
+
+// =============================================================================
+// ZOD INTERNALS (v4: _zod.def + _zod.bag)
+// =============================================================================
+
+interface ZodDef {
+  type?: string
+  innerType?: ZodType
+  element?: ZodType
+  shape?: Record<string, ZodType>
+  entries?: Record<string, string | number>
+  values?: Array<string | number | boolean | null>
+  options?: ZodType[]
+  discriminator?: string
+  keyType?: ZodType
+  valueType?: ZodType
+  defaultValue?: unknown
+  in?: ZodType
+  out?: ZodType
+  format?: string
+  checks?: Array<{ _zod?: { def?: { check?: string } } }>
+}
+
+interface ZodBag {
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  patterns?: Set<RegExp>
+  format?: string
+}
+
+interface ZodInternals {
+  def?: ZodDef
+  bag?: ZodBag
+}
+
+function getInternals(schema: ZodType): ZodInternals {
+  return (schema as unknown as { _zod?: ZodInternals })._zod ?? {}
 }
 
 /**
@@ -37,7 +138,7 @@ export interface SchemaShape {
  */
 function getZodTypeName(schema: ZodType): string {
   // Access internal Zod structure
-  const def = (schema as unknown as { _zod?: { def?: { type?: string } } })._zod?.def
+  const def = getInternals(schema).def
   if (def?.type) {
     return def.type
   }
@@ -51,174 +152,268 @@ function getZodTypeName(schema: ZodType): string {
   return 'unknown'
 }
 
-/**
- * Check if schema is optional (wrapped in .optional())
- */
-function isOptional(schema: ZodType): boolean {
-  const typeName = getZodTypeName(schema)
-  return typeName === 'optional' || typeName === 'nullable'
-}
-
-/**
- * Get the inner schema if wrapped (optional, nullable, default)
- */
-function unwrap(schema: ZodType): ZodType {
-  const def = (
-    schema as unknown as {
-      _zod?: { def?: { type?: string; innerType?: ZodType; value?: unknown } }
-    }
-  )._zod?.def
+/** Wrappers that only change optionality/defaults (described on the inner type) */
+const WRAPPER_TYPES = new Set([
+  'optional',
+  'nullable',
+  'default',
+  'prefault',
+  'readonly',
+  'nonoptional',
+  'catch'
+])
 
-  if (def?.type === 'optional' || def?.type === 'nullable' || def?.type === 'default') {
-    if (def.innerType) {
-      return def.innerType as ZodType
-    }
-  }
+/** No constraint to describe (any value accepted) */
+const ANY_TYPES = new Set(['any', 'unknown'])
 
-  return schema
-}
+// =============================================================================
+// CONVERSION
+// =============================================================================
 
 /**
- * Get default value if schema has one
+ * Keep simple default values only (objects/arrays stay in the fixtures)
  */
-function getDefault(schema: ZodType): unknown | undefined {
-  const def = (schema as unknown as { _zod?: { def?: { type?: string; value?: unknown } } })._zod
-    ?.def
-
-  if (def?.type === 'default' && def.value !== undefined) {
-    // Only return simple types
-    if (
-      typeof def.value === 'string' ||
-      typeof def.value === 'number' ||
-      typeof def.value === 'boolean' ||
-      def.value === null
-    ) {
-      return def.value
-    }
+function getSimpleDefault(value: unknown): PropShape['default'] {
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    value === null
+  ) {
+    return value
   }
-
   return undefined
 }
 
-/**
- * Convert Zod type to simplified type string
- */
-function zodToSimpleType(schema: ZodType): PropShape['type'] {
-  const unwrapped = unwrap(schema)
-  const typeName = getZodTypeName(unwrapped)
+/** Number bounds implied by .int() (not worth describing) */
+function isExplicitBound(value: number | undefined): value is number {
+  return (
+    value !== undefined && Number.isFinite(value) && Math.abs(value) !== Number.MAX_SAFE_INTEGER
+  )
+}
 
-  switch (typeName) {
-    case 'string':
-      return 'string'
-    case 'number':
-      return 'number'
-    case 'boolean':
-      return 'boolean'
-    case 'array':
-      return 'array'
-    case 'object':
-      return 'object'
-    default:
-      return 'unknown'
-  }
+function report(unsupported: UnsupportedConstruct[], path: string, zodType: string): void {
+  unsupported.push({ path: path || '(root)', zodType })
 }
 
 /**
- * Extract array item schema
+ * Custom refinements (.refine, .superRefine) cannot be described
  */
-function getArrayItemSchema(schema: ZodType): ZodType | null {
-  const unwrapped = unwrap(schema)
-  const def = (unwrapped as unknown as { _zod?: { def?: { element?: ZodType } } })._zod?.def
-
-  if (def?.element) {
-    return def.element as ZodType
+function reportRefinements(
+  unsupported: UnsupportedConstruct[],
+  schema: ZodType,
+  path: string
+): void {
+  const checks = getInternals(schema).def?.checks ?? []
+  if (checks.some((check) => check._zod?.def?.check === 'custom')) {
+    report(unsupported, path, 'refine')
   }
-
-  return null
 }
 
 /**
- * Extract object properties from Zod object schema
+ * Convert a single Zod property to PropShape
  */
-function getObjectShape(schema: ZodType): Record<string, ZodType> | null {
-  const unwrapped = unwrap(schema)
-  const def = (unwrapped as unknown as { _zod?: { def?: { shape?: Record<string, ZodType> } } })
-    ._zod?.def
+function zodToPropShape(
+  unsupported: UnsupportedConstruct[],
+  schema: ZodType,
+  path: string,
+  depth: number = 0
+): PropShape {
+  // Prevent infinite recursion
+  if (depth > 5) {
+    report(unsupported, path, 'max depth')
+    return { type: 'unknown', optional: false, zodType: 'max depth' }
+  }
 
-  if (def?.shape) {
-    return def.shape as Record<string, ZodType>
+  // Unwrap optional/nullable/default... (outermost wins for default/description)
+  let current = schema
+  let optional = false
+  let nullable = false
+  let defaultValue: PropShape['default']
+  let description = current.description
+  let image = imageRegistry.get(current)
+
+  while (WRAPPER_TYPES.has(getZodTypeName(current))) {
+    const def = getInternals(current).def!
+    switch (def.type) {
+      case 'optional':
+        optional = true
+        break
+      case 'nullable':
+        nullable = true
+        break
+      case 'default':
+      case 'prefault':
+        optional = true
+        if (defaultValue === undefined) defaultValue = getSimpleDefault(def.defaultValue)
+        break
+      case 'catch':
+        report(unsupported, path, 'catch')
+        break
+    }
+    reportRefinements(unsupported, current, path)
+    current = def.innerType!
+    description ??= current.description
+    image ??= imageRegistry.get(current)
   }
 
-  return null
+  const shape = describeSchema(unsupported, current, path, depth)
+  shape.optional = optional
+  if (nullable) shape.nullable = true
+  if (defaultValue !== undefined) shape.default = defaultValue
+  if (description) shape.description = description
+  if (image) shape.image = { ...image }
+  return shape
 }
 
 /**
- * Convert a single Zod property to PropShape
+ * Describe an unwrapped schema
  */
-function zodToPropShape(schema: ZodType, depth: number = 0): PropShape {
-  // Prevent infinite recursion
-  if (depth > 5) {
-    return { type: 'unknown', optional: false }
-  }
-
-  const optional = isOptional(schema)
-  const defaultValue = getDefault(schema)
-  const simpleType = zodToSimpleType(schema)
+function describeSchema(
+  unsupported: UnsupportedConstruct[],
+  schema: ZodType,
+  path: string,
+  depth: number
+): PropShape {
+  const { def = {}, bag = {} } = getInternals(schema)
+  const typeName = getZodTypeName(schema)
+  const shape: PropShape = { type: 'unknown', optional: false }
 
-  const shape: PropShape = {
-    type: simpleType,
-    optional: optional || defaultValue !== undefined
-  }
+  reportRefinements(unsupported, schema, path)
 
-  if (defaultValue !== undefined) {
-    shape.default = defaultValue as string | number | boolean | null
-  }
+  switch (typeName) {
+    case 'string': {
+      shape.type = 'string'
+      if (bag.minimum !== undefined) shape.minLength = bag.minimum
+      if (bag.maximum !== undefined) shape.maxLength = bag.maximum
+      // Built-in formats carry their own regex: the format name says it all
+      const format = def.format ?? bag.format
+      if (format && format !== 'regex') {
+        shape.format = format
+      } else if (bag.patterns?.size) {
+        shape.pattern = [...bag.patterns].map((pattern) => pattern.source).join('|')
+      }
+      break
+    }
 
-  // Handle arrays
-  if (simpleType === 'array') {
-    const itemSchema = getArrayItemSchema(schema)
-    if (itemSchema) {
-      shape.items = zodToPropShape(itemSchema, depth + 1)
+    case 'number': {
+      shape.type = 'number'
+      if (isExplicitBound(bag.minimum)) shape.minimum = bag.minimum
+      if (isExplicitBound(bag.maximum)) shape.maximum = bag.maximum
+      if (bag.exclusiveMinimum !== undefined) shape.exclusiveMinimum = bag.exclusiveMinimum
+      if (bag.exclusiveMaximum !== undefined) shape.exclusiveMaximum = bag.exclusiveMaximum
+      const format = def.format ?? bag.format
+      if (format) shape.format = format
+      break
     }
-  }
 
-  // Handle nested objects
-  if (simpleType === 'object') {
-    const objShape = getObjectShape(schema)
-    if (objShape) {
-      shape.properties = {}
-      for (const [key, propSchema] of Object.entries(objShape)) {
-        shape.properties[key] = zodToPropShape(propSchema, depth + 1)
+    case 'boolean':
+      shape.type = 'boolean'
+      break
+
+    case 'null':
+      shape.type = 'null'
+      break
+
+    case 'enum':
+      shape.type = 'enum'
+      shape.values = Object.values(def.entries ?? {})
+      break
+
+    case 'literal':
+      shape.type = 'literal'
+      shape.values = [...(def.values ?? [])]
+      break
+
+    case 'union':
+      shape.type = 'union'
+      if (def.discriminator) shape.discriminator = def.discriminator
+      shape.variants = (def.options ?? []).map((option, index) =>
+        zodToPropShape(unsupported, option, `${path}|${index}`, depth + 1)
+      )
+      break
+
+    case 'record':
+      shape.type = 'record'
+      if (def.keyType && getZodTypeName(def.keyType) !== 'string') {
+        shape.keyShape = zodToPropShape(unsupported, def.keyType, `${path}{key}`, depth + 1)
+      } else if (def.keyType) {
+        reportRefinements(unsupported, def.keyType, `${path}{key}`)
+      }
+      if (def.valueType) {
+        shape.valueShape = zodToPropShape(unsupported, def.valueType, `${path}{}`, depth + 1)
+      }
+      break
+
+    case 'array':
+      shape.type = 'array'
+      if (bag.minimum !== undefined) shape.minItems = bag.minimum
+      if (bag.maximum !== undefined) shape.maxItems = bag.maximum
+      if (def.element) {
+        shape.items = zodToPropShape(unsupported, def.element, `${path}[]`, depth + 1)
+      }
+      break
+
+    case 'object':
+      shape.type = 'object'
+      shape.properties = zodToProperties(unsupported, def.shape ?? {}, path, depth + 1)
+      break
+
+    case 'pipe':
+      // .pipe(): authors write the input side. .transform() (out) and z.preprocess
+      // (in, reported below) change the value after it is written: not a prop shape.
+      if (def.out && getZodTypeName(def.out) === 'transform') {
+        report(unsupported, path, 'transform')
+      }
+      return def.in ? describeSchema(unsupported, def.in, path, depth) : shape
+
+    default:
+      if (!ANY_TYPES.has(typeName)) {
+        shape.zodType = typeName
+        report(unsupported, path, typeName)
       }
-    }
   }
 
   return shape
 }
 
+function zodToProperties(
+  unsupported: UnsupportedConstruct[],
+  objShape: Record<string, ZodType>,
+  path: string,
+  depth: number
+): Record<string, PropShape> {
+  const properties: Record<string, PropShape> = {}
+  for (const [key, propSchema] of Object.entries(objShape)) {
+    properties[key] = zodToPropShape(unsupported, propSchema, path ? `${path}.${key}` : key, depth)
+  }
+  return properties
+}
+
 /**
  * Convert a Zod object schema to SchemaShape
  * Main entry point for catalog generation
  *
  * @param schema - Zod schema (expected to be z.object(...))
- * @returns Simplified JSON shape
+ * @returns Simplified JSON shape + unsupported constructs
  */
 export function zodToShape(schema: ZodType): SchemaShape {
-  const objShape = getObjectShape(schema)
+  const unsupported: UnsupportedConstruct[] = []
+  const { def } = getInternals(schema)
 
-  if (!objShape) {
+  if (getZodTypeName(schema) !== 'object' || !def?.shape) {
     // Not an object schema, return empty
-    return { type: 'object', properties: {} }
-  }
-
-  const properties: Record<string, PropShape> = {}
-
-  for (const [key, propSchema] of Object.entries(objShape)) {
-    properties[key] = zodToPropShape(propSchema)
+    return {
+      type: 'object',
+      properties: {},
+      unsupported: [{ path: '(root)', zodType: getZodTypeName(schema) }]
+    }
   }
 
+  const rootShape = zodToPropShape(unsupported, schema, '')
   return {
     type: 'object',
-    properties
+    properties: rootShape.properties ?? {},
+    unsupported
   }
 }
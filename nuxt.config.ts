@@ -1,4 +1,7 @@
 // https://nuxt.com/docs/api/configuration/nuxt-config
+import { join } from 'node:path'
+import { SCALE_THRESHOLDS } from './app/config/pagePolicy'
+import { getContentTimestamps } from './server/build/content-timestamps'
 
 // =============================================================================
 // ENV PARSING HELPERS
@@ -24,6 +27,24 @@ function parseLocaleMeta(
   }
 }
 
+function parseLocaleFallbacks(envValue: string | undefined): Record<string, string[]> {
+  if (!envValue) return {}
+  try {
+    return JSON.parse(envValue)
+  } catch {
+    return {}
+  }
+}
+
+function parseStorageMount(envValue: string | undefined): Record<string, unknown> | undefined {
+  if (!envValue) return undefined
+  try {
+    return JSON.parse(envValue)
+  } catch {
+    return undefined
+  }
+}
+
 // =============================================================================
 // CONFIGURATION CONSTANTS (Single Source of Truth)
 // =============================================================================
@@ -38,6 +59,17 @@ const LOCALE_META = parseLocaleMeta(process.env.NUXT_PUBLIC_LOCALE_META, {
   en: 'en-US'
 })
 
+// Per-locale fallback chains, e.g. {"fr-CA":["fr","en"]} (default locale always last)
+const LOCALE_FALLBACKS = parseLocaleFallbacks(process.env.NUXT_PUBLIC_LOCALE_FALLBACKS)
+
+// Render previews storage (unstorage mount, build time), e.g. {"driver":"redis","base":"previews"}
+// Unset: in memory — one server instance only (see server/utils/page-preview.ts)
+const PAGE_PREVIEW_STORAGE = parseStorageMount(process.env.NUXT_PAGE_PREVIEW_STORAGE)
+
+// Password attempt counters of protected pages (unstorage mount, build time)
+// Unset: in memory — counted per server instance (see server/utils/page-access.ts)
+const PAGE_ACCESS_STORAGE = parseStorageMount(process.env.NUXT_PAGE_ACCESS_STORAGE)
+
 // Shell strict mode: when true, p/demo pages have shells forced to null
 const SHELL_STRICT_PRIVATE = process.env.NUXT_PUBLIC_SHELL_STRICT_PRIVATE === 'true'
 
@@ -66,11 +98,25 @@ export default defineNuxtConfig({
   // RUNTIME CONFIG — Single Source of Truth
   // ---------------------------------------------------------------------------
   runtimeConfig: {
+    // Server-only: signs preview links of protected p/demo pages (NUXT_PREVIEW_SECRET)
+    previewSecret: '',
+    // Server-only: enables the page write API /api/__page__ (NUXT_PAGE_WRITE_TOKEN)
+    pageWriteToken: '',
+    // Server-only: /sitemap.xml becomes a sitemap index above this many URLs, paginated
+    // in /sitemaps/<type>-<n>.xml (NUXT_SITEMAP_MAX_URLS, capped to the 50,000 protocol limit)
+    sitemapMaxUrls: SCALE_THRESHOLDS.SITEMAP_MAX_URLS,
+    // Server-only: 'locale' splits child sitemaps by locale too: /sitemaps/<locale>-<type>-<n>.xml
+    // (NUXT_SITEMAP_GROUP_BY)
+    sitemapGroupBy: 'type',
+    // Server-only: hosts allowed in <image:image> besides the site's own, comma-separated,
+    // subdomains included (NUXT_SITEMAP_IMAGE_HOSTS, empty = every image is listed)
+    sitemapImageHosts: '',
     public: {
       siteUrl: SITE_URL,
       defaultLocale: DEFAULT_LOCALE,
       locales: LOCALES,
       localeMeta: LOCALE_META,
+      localeFallbacks: LOCALE_FALLBACKS,
       shellStrictPrivate: SHELL_STRICT_PRIVATE
     }
   },
@@ -108,7 +154,7 @@ export default defineNuxtConfig({
   //
   // Rationale (see docs/scale.md):
   // 1. Pages are rendered on-demand via SSR (no prerender bomb)
-  // 2. Sitemap is generated dynamically (cached 10min)
+  // 2. Sitemap is generated dynamically (cached 10min, sitemap index at scale)
   // 3. This scales to 10k+ pages without build time explosion
   // 4. p/demo pages are never indexed anyway
   //
@@ -118,7 +164,42 @@ export default defineNuxtConfig({
   // ---------------------------------------------------------------------------
 
   // ---------------------------------------------------------------------------
-  // Robots — Disallow /p/, /demo/, /dev/ + Sitemap (PROD only)
+  // Nuxt Content API — closed to the public (server/middleware/content-api.ts)
+  // @nuxt/content prerenders /api/_content/cache.<hash>.json at build to warm its
+  // parsed content cache: keep the request, never write the file to .output/public
+  // ---------------------------------------------------------------------------
+  nitro: {
+    storage: {
+      ...(PAGE_PREVIEW_STORAGE && { 'page-previews': PAGE_PREVIEW_STORAGE }),
+      ...(PAGE_ACCESS_STORAGE && { 'page-access-attempts': PAGE_ACCESS_STORAGE })
+    },
+    hooks: {
+      'prerender:generate'(route) {
+        if (route.route.startsWith('/api/_content/')) {
+          route.skip = true
+        }
+      }
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // Content timestamps — last git commit (or mtime) of each content file, bundled
+  // as #content-timestamps: the deployed server has no git history (see
+  // server/build/content-timestamps.ts). Fallback of page updatedAt (sitemap lastmod)
+  // ---------------------------------------------------------------------------
+  hooks: {
+    'nitro:config'(nitroConfig) {
+      const timestamps = getContentTimestamps(join(nitroConfig.rootDir!, 'content'))
+      nitroConfig.virtual = {
+        ...nitroConfig.virtual,
+        '#content-timestamps': `export default ${JSON.stringify(timestamps)}`
+      }
+    }
+  },
+
+  // ---------------------------------------------------------------------------
+  // Robots — Disallow /p/, /demo/, /dev/, /__preview/ + Sitemap (PROD only)
+  // /sitemap.xml is the entry point: a urlset, or the sitemap index at scale
   // ---------------------------------------------------------------------------
   // NOTE: Using @nuxtjs/robots module for robots.txt generation
   // /p/* and /demo/* pages also have:
@@ -131,8 +212,18 @@ export default defineNuxtConfig({
         // In PROD: allow everything except private/demo/dev
         // In DEV: disallow everything
         allow: process.env.NODE_ENV === 'production' ? ['/'] : [],
+        // /__preview/ is not localized by the module (underscore = internal route)
         disallow:
-          process.env.NODE_ENV === 'production' ? ['/p/', '/demo/', '/dev/', '/api/'] : ['/']
+          process.env.NODE_ENV === 'production'
+            ? [
+                '/p/',
+                '/demo/',
+                '/dev/',
+                '/__preview/',
+                ...LOCALES.filter((l) => l !== DEFAULT_LOCALE).map((l) => `/${l}/__preview/`),
+                '/api/'
+              ]
+            : ['/']
       }
     ],
     sitemap: process.env.NODE_ENV === 'production' ? `${SITE_URL}/sitemap.xml` : undefined
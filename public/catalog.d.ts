@@ -0,0 +1,453 @@
+/**
+ * Page builder types — section and shell props, generated from the manifests.
+ * GENERATED by pnpm catalog:build — do not edit (see public/catalog.json).
+ */
+
+export type CatalogVersion = "396982df265d76aa"
+
+export type PackKey = "interweb" | "pizza"
+
+// Sections
+
+export type SectionId =
+  | "hero.split"
+  | "faq.simple"
+  | "layout.stack"
+  | "layout.split"
+  | "interweb.hero"
+  | "interweb.features"
+  | "interweb.bento"
+  | "interweb.testimonials"
+  | "interweb.recap"
+  | "interweb.results"
+  | "interweb.contact"
+
+/** Fields every section accepts */
+export interface SectionBase {
+  /** Pack styling this section (default: the page packKey) */
+  pack?: PackKey
+  /** CSS custom properties (--name: value) */
+  overrides?: Record<string, string>
+  /** ISO 8601 date: hidden before */
+  publishAt?: string
+  /** ISO 8601 date: hidden from */
+  unpublishAt?: string
+  /** A/B experiment key (lowercase, digits, dashes) */
+  experiment?: string
+  variants?: SectionVariant[]
+}
+
+/** A/B variant: replaces id/pack/overrides, props merged over the section props */
+export interface SectionVariant {
+  key: string
+  /** Relative weight (0 pauses the variant) */
+  weight?: number
+  id?: SectionId
+  pack?: PackKey
+  props?: Record<string, unknown>
+  overrides?: Record<string, string>
+}
+
+/** hero.split props */
+export interface HeroSplitProps {
+  title: string
+  subtitle?: string
+  ctaLabel?: string
+  ctaHref?: string
+  imageUrl?: string
+}
+
+/** Headline, text and call to action next to an image */
+export interface HeroSplitSection extends SectionBase {
+  id: "hero.split"
+  props: HeroSplitProps
+}
+
+/** faq.simple props */
+export interface FaqSimpleProps {
+  title?: string
+  items: Array<{
+    q: string
+    a: string
+  }>
+}
+
+/** List of questions and answers */
+export interface FaqSimpleSection extends SectionBase {
+  id: "faq.simple"
+  props: FaqSimpleProps
+}
+
+/** layout.stack props */
+export interface LayoutStackProps {
+  gap?: number
+  align?: "start" | "center" | "end"
+  maxWidth?: string
+  paddingY?: number
+  paddingX?: number
+  content?: string
+}
+
+/** Vertical stack of text blocks with configurable spacing and alignment */
+export interface LayoutStackSection extends SectionBase {
+  id: "layout.stack"
+  props?: LayoutStackProps
+}
+
+/** layout.split props */
+export interface LayoutSplitProps {
+  ratio?: "1:1" | "1:2" | "2:1" | "1:3" | "3:1"
+  reverse?: boolean
+  gap?: number
+  align?: "start" | "center" | "end"
+  paddingY?: number
+  left?: string
+  right?: string
+  leftImage?: string
+  rightImage?: string
+}
+
+/** Two columns (text or image) with configurable ratio, gap and alignment */
+export interface LayoutSplitSection extends SectionBase {
+  id: "layout.split"
+  props?: LayoutSplitProps
+}
+
+/** interweb.hero props */
+export interface InterwebHeroProps {
+  anchorId?: string
+  /** @default true */
+  showPill?: boolean
+  /** @default "Disponible maintenant" */
+  pillText?: string
+  /** @default "Votre site professionnel,<br>prêt en <span class=\"text-accent\">24 heures.</span>" */
+  titleHtml?: string
+  /** @default "Un site internet clair, sérieux et moderne, conçu pour des professionnels comme vous. <strong style=\"color: var(--color-text-primary);\">Vous n'avez rien à faire</strong>, on s'occupe de tout." */
+  subtitleHtml?: string
+  /** @default "Obtenir mon site gratuitement" */
+  ctaLabel?: string
+  /** @default "#contact" */
+  ctaHref?: string
+  /** @default "<strong style=\"color: var(--color-text-primary);\">+ de 150 professionnels</strong> nous font confiance" */
+  trustStatement?: string
+  trustItems?: Array<{
+    label: string
+  }>
+}
+
+/** Status pill, display headline, call to action and trust indicators */
+export interface InterwebHeroSection extends SectionBase {
+  id: "interweb.hero"
+  props?: InterwebHeroProps
+}
+
+/** interweb.features props */
+export interface InterwebFeaturesProps {
+  anchorId?: string
+  /** @default "Pour qui est fait <span class=\"text-accent\">Interweb</span> ?" */
+  titleHtml?: string
+  /** @default "Pour les professionnels qui veulent un site internet efficace, sans prise de tête." */
+  subtitle?: string
+  cards?: Array<{
+    /** @default "blue" */
+    gradient?: "blue" | "orange" | "purple" | "green" | "teal"
+    iconPath: string
+    title: string
+    text: string
+  }>
+}
+
+/** Grid of feature cards with icons and gradient backgrounds */
+export interface InterwebFeaturesSection extends SectionBase {
+  id: "interweb.features"
+  props?: InterwebFeaturesProps
+}
+
+/** interweb.bento props */
+export interface InterwebBentoProps {
+  anchorId?: string
+  /** @default "Pourquoi choisir <span class=\"text-accent\">Interweb</span> ?" */
+  titleHtml?: string
+  /** @default "Ce qui nous distingue des autres solutions." */
+  subtitle?: string
+  cards?: Array<{
+    /** @default "blue" */
+    gradient?: "blue" | "green" | "orange" | "teal" | "purple"
+    iconPath: string
+    title: string
+    text: string
+    visualType?: "avatars" | "guarantee" | "pricing" | "calendar"
+  }>
+}
+
+/** 2x2 bento grid of selling points with custom visuals */
+export interface InterwebBentoSection extends SectionBase {
+  id: "interweb.bento"
+  props?: InterwebBentoProps
+}
+
+/** interweb.testimonials props */
+export interface InterwebTestimonialsProps {
+  anchorId?: string
+  /** @default "Ils nous font <span class=\"text-accent\">confiance</span>" */
+  titleHtml?: string
+  /** @default "5/5" */
+  overallRating?: string
+  /** @default "basé sur les retours clients" */
+  ratingDescription?: string
+  testimonials?: Array<{
+    text: string
+    name: string
+    role: string
+    /** @default "5.0" */
+    rating?: string
+    /** @default "linear-gradient(135deg, #60a5fa, #3b82f6)" */
+    avatarGradient?: string
+  }>
+}
+
+/** Customer testimonials with overall rating, name and role */
+export interface InterwebTestimonialsSection extends SectionBase {
+  id: "interweb.testimonials"
+  props?: InterwebTestimonialsProps
+}
+
+/** interweb.recap props */
+export interface InterwebRecapProps {
+  anchorId?: string
+  cards?: Array<{
+    /** @default "glass" */
+    type?: "glass" | "inverted"
+    /** @default false */
+    wide?: boolean
+    gradient?: "blue" | "green" | "orange" | "purple"
+    value: string
+    unit?: string
+    label?: string
+    description: string
+  }>
+}
+
+/** KPI cards (value, unit, description) */
+export interface InterwebRecapSection extends SectionBase {
+  id: "interweb.recap"
+  props?: InterwebRecapProps
+}
+
+/** interweb.results props */
+export interface InterwebResultsProps {
+  anchorId?: string
+  /** @default "Des résultats <span class=\"text-muted\" style=\"font-style: italic; font-weight: 500;\">concrets</span>" */
+  titleHtml?: string
+  /** @default "Quelques exemples de transformations réalisées." */
+  subtitle?: string
+  cases?: Array<{
+    category: string
+    title: string
+    before: string
+    after: string
+    result: string
+    /** @default "blue" */
+    gradient?: "blue" | "purple" | "orange" | "green"
+  }>
+  /** @default true */
+  showCta?: boolean
+  /** @default "Obtenir mon site gratuitement" */
+  ctaLabel?: string
+  /** @default "#contact" */
+  ctaHref?: string
+  /** @default "C'est gratuit et sans engagement." */
+  ctaHelperText?: string
+}
+
+/** Case studies with before / after and result */
+export interface InterwebResultsSection extends SectionBase {
+  id: "interweb.results"
+  props?: InterwebResultsProps
+}
+
+/** interweb.contact props */
+export interface InterwebContactProps {
+  anchorId?: string
+  /** @default "Interweb Support" */
+  formSubtitle?: string
+  /** @default "Besoin d'aide ?" */
+  formTitle?: string
+  formFields?: Array<{
+    name: "name" | "email" | "message"
+    label: string
+    /** @default false */
+    required?: boolean
+    placeholder: string
+    /** @default "text" */
+    type?: "text" | "email" | "textarea"
+  }>
+  /** @default "Envoyer le message" */
+  formSubmitLabel?: string
+  /** @default "En soumettant, vous acceptez nos Conditions et notre Politique de Confidentialité." */
+  formDisclaimer?: string
+  /** @default "mailto:contact@gointerweb.com" */
+  formAction?: string
+  /** @default "Parlons de votre projet." */
+  infoTitle?: string
+  /** @default "Site vitrine, questions ou partenariats — dites-nous ce dont vous avez besoin. Nous répondons sous 24h." */
+  infoDescription?: string
+  highlights?: Array<{
+    iconPath: string
+    title: string
+    text: string
+  }>
+  directContact?: {
+    avatarUrl?: string
+    /** @default "linear-gradient(135deg, #0071e3, #5856d6)" */
+    avatarGradient?: string
+    /** @default "Responsable Projets" */
+    role?: string
+    /** @default "Thomas Martin" */
+    name?: string
+    /** @default "contact@gointerweb.com" */
+    email?: string
+    /** @default "Contacter directement" */
+    linkLabel?: string
+  }
+}
+
+/** Contact form with highlights and a direct contact card */
+export interface InterwebContactSection extends SectionBase {
+  id: "interweb.contact"
+  props?: InterwebContactProps
+}
+
+/** A section of page.sections[], discriminated on id */
+export type SectionDef =
+  | HeroSplitSection
+  | FaqSimpleSection
+  | LayoutStackSection
+  | LayoutSplitSection
+  | InterwebHeroSection
+  | InterwebFeaturesSection
+  | InterwebBentoSection
+  | InterwebTestimonialsSection
+  | InterwebRecapSection
+  | InterwebResultsSection
+  | InterwebContactSection
+
+// Shells
+
+export type HeaderShellId =
+  | "header.default"
+  | "header.minimal"
+  | "header.interweb"
+
+export type FooterShellId =
+  | "footer.default"
+  | "footer.interweb"
+
+/** header.default props */
+export interface HeaderDefaultProps {
+  /** @default "Logo" */
+  logoText?: string
+  /** @default "/" */
+  logoHref?: string
+  navItems?: Array<{
+    label: string
+    href: string
+  }>
+}
+
+/** Logo and navigation links */
+export interface HeaderDefaultShell {
+  id: "header.default"
+  props?: HeaderDefaultProps
+}
+
+/** header.minimal props */
+export interface HeaderMinimalProps {
+  /** @default "Logo" */
+  logoText?: string
+  /** @default "/" */
+  logoHref?: string
+}
+
+/** Logo only, no navigation (landing pages) */
+export interface HeaderMinimalShell {
+  id: "header.minimal"
+  props?: HeaderMinimalProps
+}
+
+/** header.interweb props */
+export interface HeaderInterwebProps {
+  /** @default "interweb" */
+  logoText?: string
+  /** @default "/" */
+  logoHref?: string
+  links?: Array<{
+    label: string
+    href: string
+  }>
+  /** @default "Commencer" */
+  ctaLabel?: string
+  /** @default "#contact" */
+  ctaHref?: string
+  /** @default true */
+  enableThemeToggle?: boolean
+}
+
+/** Glass navigation bar with centered links, theme toggle and call to action */
+export interface HeaderInterwebShell {
+  id: "header.interweb"
+  props?: HeaderInterwebProps
+}
+
+/** footer.default props */
+export interface FooterDefaultProps {
+  /** @default "Company" */
+  companyName?: string
+  /** @default 2026 */
+  year?: number
+  links?: Array<{
+    label: string
+    href: string
+  }>
+}
+
+/** Copyright line and links */
+export interface FooterDefaultShell {
+  id: "footer.default"
+  props?: FooterDefaultProps
+}
+
+/** footer.interweb props */
+export interface FooterInterwebProps {
+  /** @default "interweb" */
+  brand?: string
+  /** @default "Création de sites internet professionnels. Première version gratuite, sans engagement." */
+  tagline?: string
+  /** @default "© 2025 Interweb. Tous droits réservés." */
+  copyright?: string
+  links?: Array<{
+    label: string
+    href: string
+  }>
+}
+
+/** Glass card with brand, tagline, copyright and links */
+export interface FooterInterwebShell {
+  id: "footer.interweb"
+  props?: FooterInterwebProps
+}
+
+export type HeaderShell =
+  | HeaderDefaultShell
+  | HeaderMinimalShell
+  | HeaderInterwebShell
+
+export type FooterShell =
+  | FooterDefaultShell
+  | FooterInterwebShell
+
+/** page.shell (null: no header/footer) */
+export interface PageShell {
+  header?: HeaderShell | null
+  footer?: FooterShell | null
+}
@@ -3,147 +3,305 @@
 /**
  * build-catalog.ts
  *
- * Generates public/catalog.json from registries.
- * Machine-readable catalog for n8n and external tools.
+ * Generates public/catalog.json from the section, shell and pack manifests and
+ * content kits (content/kits). Machine-readable catalog for n8n and external tools.
+ *
+ * `version` is a content hash of the catalog: it changes exactly when a section,
+ * shell, pack or kit changes (generatedAt excluded).
+ *
+ * Also writes JSON Schema 2020-12 documents (see app/schema/page.jsonschema.ts):
+ * - public/schemas/page.schema.json (pages, sections discriminated on id)
+ * - public/schemas/sections/<id>.schema.json, public/schemas/shells/<id>.schema.json
+ *
+ * And public/catalog.d.ts: TypeScript types of section/shell props for services
+ * generating pages (see app/schema/page.dts.ts).
  *
  * Run: npx tsx scripts/build-catalog.ts
  *      pnpm catalog:build
+ *
+ * buildCatalog() is also used by scripts/catalog-diff.ts (in memory, nothing written).
  */
 
-import { writeFile, mkdir } from 'node:fs/promises'
-import { join, dirname } from 'node:path'
-import { fileURLToPath } from 'node:url'
-
-// Import registries and helpers
-import { KNOWN_PACKS } from '../app/packs/packRegistry'
-import { zodToShape, type SchemaShape } from '../app/utils/zodShape'
+import { writeFile, mkdir, readdir, readFile, rm } from 'node:fs/promises'
+import { createHash } from 'node:crypto'
+import { join, dirname, basename, extname } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { parse as parseYaml } from 'yaml'
 
-// Import section schemas directly
-import { HeroSplitSchema, fixtures as heroSplitFixtures } from '../app/sections/hero.split/schema'
-import { FaqSimpleSchema, fixtures as faqSimpleFixtures } from '../app/sections/faq.simple/schema'
+// Import manifests and helpers (data-only, script-safe)
+import { getKnownPacks } from '../app/packs/packs.manifest'
+import { SECTIONS_MANIFEST } from '../app/sections/sections.manifest'
+import { SHELLS_MANIFEST } from '../app/shells/shells.manifest'
 import {
-  LayoutStackSchema,
-  fixtures as layoutStackFixtures
-} from '../app/sections/layout.stack/schema'
-import {
-  LayoutSplitSchema,
-  fixtures as layoutSplitFixtures
-} from '../app/sections/layout.split/schema'
-
-// Import shell schemas directly
-import {
-  schema as headerDefaultSchema,
-  fixtures as headerDefaultFixtures
-} from '../app/shells/header.default/schema'
-import {
-  schema as headerMinimalSchema,
-  fixtures as headerMinimalFixtures
-} from '../app/shells/header.minimal/schema'
+  SECTION_CATEGORIES,
+  SHELL_CATEGORIES,
+  getCatalogMetaError,
+  type CatalogMeta
+} from '../app/config/catalogMeta'
+import { zodToShape, type SchemaShape } from '../app/utils/zodShape'
+import { parseKitDef, findPlaceholders, type KitVarValue } from '../app/schema/page.kits'
 import {
-  schema as footerDefaultSchema,
-  fixtures as footerDefaultFixtures
-} from '../app/shells/footer.default/schema'
+  PAGE_JSON_SCHEMA_PATH,
+  buildPageJsonSchema,
+  buildSectionJsonSchema,
+  buildShellJsonSchema,
+  getSectionJsonSchemaPath,
+  getShellJsonSchemaPath
+} from '../app/schema/page.jsonschema'
+import { PAGE_TYPES_PATH, buildPageTypes } from '../app/schema/page.dts'
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface SectionCatalogEntry {
+export interface CatalogEntryMeta {
+  description: string
+  category: string
+  tags: string[]
+  /** Packs it is styled for (every known pack when unrestricted) */
+  packs: string[]
+  /** Why it should no longer be used, null if current */
+  deprecated: string | null
+}
+
+export interface SectionCatalogEntry extends CatalogEntryMeta {
   id: string
   propsShape: SchemaShape
+  /** JSON Schema of the props, relative to the site root */
+  jsonSchema: string
   fixtures: unknown[]
 }
 
-interface ShellCatalogEntry {
+export interface ShellCatalogEntry extends CatalogEntryMeta {
   id: string
   slot: 'header' | 'footer'
   propsShape: SchemaShape
+  /** JSON Schema of the props, relative to the site root */
+  jsonSchema: string
   fixtures: unknown[]
 }
 
-interface Catalog {
+export interface KitVarCatalogEntry {
+  name: string
+  description?: string
+  example?: string
+  default?: KitVarValue
+}
+
+export interface KitCatalogEntry {
+  id: string
+  name: string
+  description: string
+  kind: string | null
+  /** Section ids used by the template, in page order */
+  sections: string[]
+  /** Every placeholder of the template (declared vars first, then undeclared) */
+  vars: KitVarCatalogEntry[]
+}
+
+export interface Catalog {
+  /** Content hash (sha256, 16 hex chars) of everything below but generatedAt */
   version: string
   generatedAt: string
+  /** JSON Schema of page files, relative to the site root */
+  pageSchema: string
+  /** TypeScript declarations of section/shell props, relative to the site root */
+  types: string
   packs: string[]
   sections: SectionCatalogEntry[]
   shells: ShellCatalogEntry[]
+  kits: KitCatalogEntry[]
 }
 
 // =============================================================================
-// SECTION DEFINITIONS (must match SectionRegistry.ts)
+// METADATA (declared in the manifests, see app/config/catalogMeta.ts)
 // =============================================================================
 
-const SECTIONS: Array<{ id: string; schema: unknown; fixtures: unknown[] }> = [
-  { id: 'hero.split', schema: HeroSplitSchema, fixtures: heroSplitFixtures },
-  { id: 'faq.simple', schema: FaqSimpleSchema, fixtures: faqSimpleFixtures },
-  { id: 'layout.stack', schema: LayoutStackSchema, fixtures: layoutStackFixtures },
-  { id: 'layout.split', schema: LayoutSplitSchema, fixtures: layoutSplitFixtures }
-]
+function toEntryMeta(
+  id: string,
+  meta: CatalogMeta,
+  categories: readonly string[],
+  knownPacks: readonly string[]
+): CatalogEntryMeta {
+  const error = getCatalogMetaError(meta, categories)
+  if (error) {
+    throw new Error(`Invalid catalog metadata for ${id}: ${error}`)
+  }
+
+  return {
+    description: meta.description,
+    category: meta.category,
+    tags: [...meta.tags],
+    packs: meta.packs ? [...meta.packs].sort() : [...knownPacks],
+    deprecated: meta.deprecated ?? null
+  }
+}
+
+/**
+ * Catalog version: hash of the catalog content (generatedAt excluded)
+ */
+function getCatalogVersion(catalog: Omit<Catalog, 'version' | 'generatedAt'>): string {
+  return createHash('sha256').update(JSON.stringify(catalog)).digest('hex').slice(0, 16)
+}
 
 // =============================================================================
-// SHELL DEFINITIONS (must match ShellRegistry.ts)
+// KITS (content/kits/<id>.yaml)
 // =============================================================================
 
-const SHELLS: Array<{
-  id: string
-  slot: 'header' | 'footer'
-  schema: unknown
-  fixtures: unknown[]
-}> = [
-  {
-    id: 'header.default',
-    slot: 'header',
-    schema: headerDefaultSchema,
-    fixtures: headerDefaultFixtures
-  },
-  {
-    id: 'header.minimal',
-    slot: 'header',
-    schema: headerMinimalSchema,
-    fixtures: headerMinimalFixtures
-  },
-  {
-    id: 'footer.default',
-    slot: 'footer',
-    schema: footerDefaultSchema,
-    fixtures: footerDefaultFixtures
+async function buildKitsCatalog(kitsDir: string): Promise<KitCatalogEntry[]> {
+  let files: string[]
+  try {
+    files = await readdir(kitsDir)
+  } catch {
+    return []
   }
-]
+
+  const kits: KitCatalogEntry[] = []
+
+  for (const file of files.filter((f) => f.endsWith('.yaml') || f.endsWith('.yml')).sort()) {
+    const id = basename(file, extname(file))
+    const doc = parseYaml(await readFile(join(kitsDir, file), 'utf-8')) as Record<string, unknown>
+    const parsed = parseKitDef(doc ?? {})
+
+    if (!parsed.success) {
+      throw new Error(`Invalid kit content/kits/${file}: ${parsed.error}`)
+    }
+
+    const { kit } = parsed
+    const placeholders = findPlaceholders(kit.page)
+    const declared = Object.keys(kit.vars)
+    const sections = Array.isArray(kit.page.sections)
+      ? (kit.page.sections as Array<{ id?: unknown }>)
+          .map((section) => section?.id)
+          .filter((sectionId): sectionId is string => typeof sectionId === 'string')
+      : []
+
+    kits.push({
+      id,
+      name: kit.name,
+      description: kit.description,
+      kind: typeof kit.page.kind === 'string' ? kit.page.kind : null,
+      sections,
+      vars: [
+        ...declared.map((name) => ({ name, ...kit.vars[name] })),
+        ...placeholders.filter((name) => !declared.includes(name)).map((name) => ({ name }))
+      ]
+    })
+  }
+
+  return kits
+}
 
 // =============================================================================
-// MAIN
+// JSON SCHEMAS (public/schemas, from the section + shell manifests)
 // =============================================================================
 
-async function main() {
-  console.log('📦 Building catalog...\n')
+async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(value, null, 2) + '\n', 'utf-8')
+}
 
-  const __filename = fileURLToPath(import.meta.url)
-  const __dirname = dirname(__filename)
-  const ROOT = join(__dirname, '..')
-  const OUTPUT_PATH = join(ROOT, 'public', 'catalog.json')
+/**
+ * Write every JSON Schema document (the directory is recreated: removed
+ * sections/shells leave no stale file)
+ *
+ * @returns Number of documents written
+ */
+async function writeJsonSchemas(publicDir: string): Promise<number> {
+  await rm(join(publicDir, 'schemas'), { recursive: true, force: true })
 
-  // Build sections catalog
-  const sections: SectionCatalogEntry[] = SECTIONS.map((s) => ({
+  await writeJsonFile(
+    join(publicDir, PAGE_JSON_SCHEMA_PATH),
+    buildPageJsonSchema(SECTIONS_MANIFEST, SHELLS_MANIFEST)
+  )
+  for (const entry of SECTIONS_MANIFEST) {
+    await writeJsonFile(
+      join(publicDir, getSectionJsonSchemaPath(entry.id)),
+      buildSectionJsonSchema(entry)
+    )
+  }
+  for (const entry of SHELLS_MANIFEST) {
+    await writeJsonFile(
+      join(publicDir, getShellJsonSchemaPath(entry.id)),
+      buildShellJsonSchema(entry)
+    )
+  }
+
+  return 1 + SECTIONS_MANIFEST.length + SHELLS_MANIFEST.length
+}
+
+// =============================================================================
+// CATALOG
+// =============================================================================
+
+/**
+ * Build the catalog from the manifests and content/kits (nothing written)
+ *
+ * @param root - Repository root
+ */
+export async function buildCatalog(root: string): Promise<Catalog> {
+  const knownPacks = [...getKnownPacks()].sort()
+
+  // Build sections catalog (one entry per manifest entry)
+  const sections: SectionCatalogEntry[] = SECTIONS_MANIFEST.map((s) => ({
     id: s.id,
-    propsShape: zodToShape(s.schema as Parameters<typeof zodToShape>[0]),
+    ...toEntryMeta(s.id, s, SECTION_CATEGORIES, knownPacks),
+    propsShape: zodToShape(s.schema),
+    jsonSchema: `/${getSectionJsonSchemaPath(s.id)}`,
     fixtures: s.fixtures
   })).sort((a, b) => a.id.localeCompare(b.id))
 
   // Build shells catalog
-  const shells: ShellCatalogEntry[] = SHELLS.map((s) => ({
+  const shells: ShellCatalogEntry[] = SHELLS_MANIFEST.map((s) => ({
     id: s.id,
     slot: s.slot,
-    propsShape: zodToShape(s.schema as Parameters<typeof zodToShape>[0]),
+    ...toEntryMeta(s.id, s, SHELL_CATEGORIES, knownPacks),
+    propsShape: zodToShape(s.schema),
+    jsonSchema: `/${getShellJsonSchemaPath(s.id)}`,
     fixtures: s.fixtures
   })).sort((a, b) => a.id.localeCompare(b.id))
 
-  // Build catalog
-  const catalog: Catalog = {
-    version: '1.0.0',
-    generatedAt: new Date().toISOString(),
-    packs: [...KNOWN_PACKS].sort(),
+  // Build kits catalog
+  const kits = await buildKitsCatalog(join(root, 'content', 'kits'))
+
+  // Version = hash of the content
+  const content = {
+    pageSchema: `/${PAGE_JSON_SCHEMA_PATH}`,
+    types: `/${PAGE_TYPES_PATH}`,
+    packs: knownPacks,
     sections,
-    shells
+    shells,
+    kits
+  }
+  return {
+    version: getCatalogVersion(content),
+    generatedAt: new Date().toISOString(),
+    ...content
+  }
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  console.log('📦 Building catalog...\n')
+
+  const __filename = fileURLToPath(import.meta.url)
+  const __dirname = dirname(__filename)
+  const ROOT = join(__dirname, '..')
+  const OUTPUT_PATH = join(ROOT, 'public', 'catalog.json')
+
+  const catalog = await buildCatalog(ROOT)
+
+  for (const entry of [...catalog.sections, ...catalog.shells]) {
+    if (entry.deprecated) {
+      console.warn(`⚠️  ${entry.id} is deprecated: ${entry.deprecated}`)
+    }
+    // Report what the shapes could not describe (see propsShape.unsupported)
+    for (const { path, zodType } of entry.propsShape.unsupported) {
+      console.warn(`⚠️  ${entry.id}: ${path} uses an unsupported Zod construct (${zodType})`)
+    }
   }
 
   // Ensure public directory exists
@@ -152,13 +310,29 @@ async function main() {
   // Write catalog
   await writeFile(OUTPUT_PATH, JSON.stringify(catalog, null, 2) + '\n', 'utf-8')
 
-  console.log(`✅ Catalog generated: public/catalog.json`)
+  // Write JSON Schemas
+  const schemaCount = await writeJsonSchemas(join(ROOT, 'public'))
+
+  // Write TypeScript declarations
+  await writeFile(
+    join(ROOT, 'public', PAGE_TYPES_PATH),
+    buildPageTypes(SECTIONS_MANIFEST, SHELLS_MANIFEST, catalog.packs, catalog.version),
+    'utf-8'
+  )
+
+  console.log(`✅ Catalog generated: public/catalog.json (version ${catalog.version})`)
   console.log(`   - ${catalog.packs.length} pack(s)`)
   console.log(`   - ${catalog.sections.length} section(s)`)
   console.log(`   - ${catalog.shells.length} shell(s)`)
+  console.log(`   - ${catalog.kits.length} kit(s)`)
+  console.log(`✅ JSON Schemas generated: public/schemas/ (${schemaCount} document(s))`)
+  console.log(`✅ Types generated: public/${PAGE_TYPES_PATH}`)
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err)
-  process.exit(1)
-})
+// Only when run directly (catalog-diff imports buildCatalog)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((err) => {
+    console.error('Fatal error:', err)
+    process.exit(1)
+  })
+}
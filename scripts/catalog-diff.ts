@@ -0,0 +1,645 @@
+/**
+ * catalog-diff.ts
+ *
+ * Breaking-change detector for the catalog, run before a release.
+ * Builds the catalog in memory (same code as catalog:build) and compares it
+ * with the committed public/catalog.json (HEAD, or --base <git ref>).
+ *
+ * Every change is classified:
+ * - BREAKING: existing pages or generators may stop validating
+ *   (section/shell/kit/pack removed, prop removed, prop now required,
+ *   enum narrowed, type changed, constraint tightened, shell slot changed...)
+ * - ADDITIVE: new capabilities, existing pages still valid
+ *   (new section/shell/kit/pack, new optional prop, enum widened, constraint loosened...)
+ * - METADATA: metadata only (description, category, tags, packs, deprecation, defaults)
+ *
+ * For entries with breaking changes, lists the content pages using them
+ * (after kit expansion and $ref resolution), then reports the overall change level
+ * (the highest one). The catalog `version` is a content hash, not a release number:
+ * the level says what a release carrying the change must announce.
+ *
+ * Run: pnpm catalog:diff
+ *      pnpm catalog:diff --base v1.4.0
+ *
+ * NOTE: No shebang — always run via package.json script for portability.
+ */
+
+import { execFileSync } from 'node:child_process'
+import { readdir, readFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parse as parseYaml } from 'yaml'
+
+import {
+  buildCatalog,
+  type Catalog,
+  type CatalogEntryMeta,
+  type KitCatalogEntry
+} from './build-catalog'
+import type { PropShape } from '../app/utils/zodShape'
+import { migratePage, type RawPage } from '../app/schema/page.migrations'
+import { expandKit } from '../app/schema/page.kits'
+import { resolvePartials } from '../app/schema/page.partials'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+const ROOT = join(__dirname, '..')
+const CONTENT_DIR = join(ROOT, 'content')
+const CATALOG_FILE = 'public/catalog.json'
+// Partials fall back to the default locale, like loadPage
+const DEFAULT_LOCALE = process.env.NUXT_PUBLIC_DEFAULT_LOCALE || 'fr'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type ChangeLevel = 'breaking' | 'additive' | 'metadata'
+
+/** What a change is about: section:<id>, shell:<id>, kit:<id>, pack:<key> */
+type EntryKey = `${'section' | 'shell' | 'kit' | 'pack'}:${string}`
+
+interface CatalogChange {
+  level: ChangeLevel
+  entry: EntryKey
+  /** Prop path (zodShape notation: dots, [] items, {} record values, |n variants) */
+  path: string
+  message: string
+}
+
+type ChangeLog = (level: ChangeLevel, path: string, message: string) => void
+
+/** Catalog entry with props (sections and shells; older catalogs may lack metadata) */
+interface PropsEntry extends Partial<CatalogEntryMeta> {
+  id: string
+  slot?: string
+  propsShape: { properties: Record<string, PropShape> }
+}
+
+// =============================================================================
+// PROPS SHAPE COMPARISON
+// =============================================================================
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'none' : JSON.stringify(value)
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * A min/max constraint: tighter is breaking, looser is additive
+ *
+ * @param direction - 'lower' for min*, 'upper' for max*
+ */
+function compareBound(
+  log: ChangeLog,
+  path: string,
+  name: string,
+  before: number | undefined,
+  after: number | undefined,
+  direction: 'lower' | 'upper'
+): void {
+  if (before === after) return
+  const tighter =
+    after !== undefined &&
+    (before === undefined || (direction === 'lower' ? after > before : after < before))
+  log(
+    tighter ? 'breaking' : 'additive',
+    path,
+    `${name} ${formatValue(before)} → ${formatValue(after)}`
+  )
+}
+
+/**
+ * pattern/format: added or changed is breaking, removed is additive
+ */
+function compareRule(
+  log: ChangeLog,
+  path: string,
+  name: string,
+  before: string | undefined,
+  after: string | undefined
+): void {
+  if (before === after) return
+  log(
+    after === undefined ? 'additive' : 'breaking',
+    path,
+    `${name} ${formatValue(before)} → ${formatValue(after)}`
+  )
+}
+
+/**
+ * Union variants, matched on the discriminator value (else by position)
+ */
+function getVariantKey(shape: PropShape, discriminator: string | undefined, index: number): string {
+  const values = discriminator ? shape.properties?.[discriminator]?.values : undefined
+  return values ? values.map((value) => formatValue(value)).join(',') : String(index)
+}
+
+function compareVariants(log: ChangeLog, path: string, before: PropShape, after: PropShape): void {
+  const discriminator =
+    before.discriminator === after.discriminator ? before.discriminator : undefined
+  if (before.discriminator !== after.discriminator) {
+    log(
+      'breaking',
+      path,
+      `discriminator ${formatValue(before.discriminator)} → ${formatValue(after.discriminator)}`
+    )
+  }
+
+  const toMap = (variants: PropShape[] = []) =>
+    new Map(variants.map((variant, i) => [getVariantKey(variant, discriminator, i), variant]))
+  const beforeVariants = toMap(before.variants)
+  const afterVariants = toMap(after.variants)
+
+  for (const [key, variant] of beforeVariants) {
+    const next = afterVariants.get(key)
+    if (next) {
+      compareShapes(log, `${path}|${key}`, variant, next)
+    } else {
+      log('breaking', `${path}|${key}`, 'union variant removed')
+    }
+  }
+  for (const key of afterVariants.keys()) {
+    if (!beforeVariants.has(key)) log('additive', `${path}|${key}`, 'union variant added')
+  }
+}
+
+function compareShapes(log: ChangeLog, path: string, before: PropShape, after: PropShape): void {
+  if (before.type !== after.type) {
+    log(
+      after.type === 'unknown' ? 'additive' : 'breaking',
+      path,
+      `type ${before.type} → ${after.type}`
+    )
+    return
+  }
+
+  if (before.optional && !after.optional) log('breaking', path, 'now required')
+  if (!before.optional && after.optional) log('additive', path, 'now optional')
+  if (before.nullable && !after.nullable) log('breaking', path, 'no longer accepts null')
+  if (!before.nullable && after.nullable) log('additive', path, 'now accepts null')
+
+  if (before.default !== after.default) {
+    log('metadata', path, `default ${formatValue(before.default)} → ${formatValue(after.default)}`)
+  }
+  if (before.description !== after.description) log('metadata', path, 'description changed')
+  if (JSON.stringify(before.image) !== JSON.stringify(after.image)) {
+    log('metadata', path, 'image mark changed (sitemap images)')
+  }
+
+  // Enums and literals
+  if (before.values || after.values) {
+    const beforeValues = (before.values ?? []).map((value) => formatValue(value))
+    const afterValues = (after.values ?? []).map((value) => formatValue(value))
+    const removed = beforeValues.filter((value) => !afterValues.includes(value))
+    const added = afterValues.filter((value) => !beforeValues.includes(value))
+    if (removed.length > 0) {
+      log('breaking', path, `${before.type} narrowed (removed: ${removed.join(', ')})`)
+    }
+    if (added.length > 0) {
+      log('additive', path, `${before.type} widened (added: ${added.join(', ')})`)
+    }
+  }
+
+  // Constraints
+  compareBound(log, path, 'minLength', before.minLength, after.minLength, 'lower')
+  compareBound(log, path, 'maxLength', before.maxLength, after.maxLength, 'upper')
+  compareBound(log, path, 'minimum', before.minimum, after.minimum, 'lower')
+  compareBound(log, path, 'maximum', before.maximum, after.maximum, 'upper')
+  compareBound(
+    log,
+    path,
+    'exclusiveMinimum',
+    before.exclusiveMinimum,
+    after.exclusiveMinimum,
+    'lower'
+  )
+  compareBound(
+    log,
+    path,
+    'exclusiveMaximum',
+    before.exclusiveMaximum,
+    after.exclusiveMaximum,
+    'upper'
+  )
+  compareBound(log, path, 'minItems', before.minItems, after.minItems, 'lower')
+  compareBound(log, path, 'maxItems', before.maxItems, after.maxItems, 'upper')
+  compareRule(log, path, 'pattern', before.pattern, after.pattern)
+  compareRule(log, path, 'format', before.format, after.format)
+
+  // Nested shapes
+  switch (before.type) {
+    case 'object':
+      compareProperties(log, path, before.properties ?? {}, after.properties ?? {})
+      break
+
+    case 'array':
+      if (before.items && after.items) compareShapes(log, `${path}[]`, before.items, after.items)
+      break
+
+    case 'record':
+      // No keyShape = any string key
+      if (before.keyShape && after.keyShape) {
+        compareShapes(log, `${path}{key}`, before.keyShape, after.keyShape)
+      } else if (before.keyShape || after.keyShape) {
+        log(before.keyShape ? 'additive' : 'breaking', `${path}{key}`, 'key constraint changed')
+      }
+      if (before.valueShape && after.valueShape) {
+        compareShapes(log, `${path}{}`, before.valueShape, after.valueShape)
+      }
+      break
+
+    case 'union':
+      compareVariants(log, path, before, after)
+      break
+  }
+}
+
+function compareProperties(
+  log: ChangeLog,
+  path: string,
+  before: Record<string, PropShape>,
+  after: Record<string, PropShape>
+): void {
+  for (const [key, shape] of Object.entries(before)) {
+    const next = after[key]
+    if (next) {
+      compareShapes(log, joinPath(path, key), shape, next)
+    } else {
+      // Props are validated strictly: pages still setting it fail
+      log('breaking', joinPath(path, key), 'prop removed')
+    }
+  }
+  for (const [key, shape] of Object.entries(after)) {
+    if (key in before) continue
+    log(
+      shape.optional ? 'additive' : 'breaking',
+      joinPath(path, key),
+      shape.optional ? 'new optional prop' : 'new required prop'
+    )
+  }
+}
+
+// =============================================================================
+// CATALOG COMPARISON
+// =============================================================================
+
+function compareLists(
+  log: ChangeLog,
+  name: string,
+  before: string[] | undefined,
+  after: string[] | undefined,
+  level: ChangeLevel = 'metadata'
+): void {
+  const beforeList = (before ?? []).join(', ')
+  const afterList = (after ?? []).join(', ')
+  if (beforeList !== afterList) log(level, '', `${name} [${beforeList}] → [${afterList}]`)
+}
+
+function comparePropsEntries(
+  changes: CatalogChange[],
+  type: 'section' | 'shell',
+  before: PropsEntry[],
+  after: PropsEntry[]
+): void {
+  const afterById = new Map(after.map((entry) => [entry.id, entry]))
+  const beforeIds = new Set(before.map((entry) => entry.id))
+
+  for (const entry of before) {
+    const key: EntryKey = `${type}:${entry.id}`
+    const log: ChangeLog = (level, path, message) =>
+      changes.push({ level, entry: key, path, message })
+    const next = afterById.get(entry.id)
+
+    if (!next) {
+      log('breaking', '', `${type} removed`)
+      continue
+    }
+
+    if (entry.slot !== next.slot) {
+      log('breaking', '', `slot ${formatValue(entry.slot)} → ${formatValue(next.slot)}`)
+    }
+    compareProperties(log, '', entry.propsShape.properties, next.propsShape.properties)
+
+    // Metadata (advisory: guard-pages warns, never fails)
+    if (entry.description !== next.description) log('metadata', '', 'description changed')
+    if (entry.category !== next.category) {
+      log('metadata', '', `category ${formatValue(entry.category)} → ${formatValue(next.category)}`)
+    }
+    compareLists(log, 'tags', entry.tags, next.tags)
+    compareLists(log, 'packs', entry.packs, next.packs)
+    if ((entry.deprecated ?? null) !== (next.deprecated ?? null)) {
+      log(
+        'metadata',
+        '',
+        next.deprecated ? `deprecated: ${next.deprecated}` : 'no longer deprecated'
+      )
+    }
+  }
+
+  for (const entry of after) {
+    if (!beforeIds.has(entry.id)) {
+      changes.push({
+        level: 'additive',
+        entry: `${type}:${entry.id}`,
+        path: '',
+        message: `new ${type}`
+      })
+    }
+  }
+}
+
+function compareKits(
+  changes: CatalogChange[],
+  before: KitCatalogEntry[],
+  after: KitCatalogEntry[]
+): void {
+  const afterById = new Map(after.map((kit) => [kit.id, kit]))
+  const beforeIds = new Set(before.map((kit) => kit.id))
+
+  for (const kit of before) {
+    const key: EntryKey = `kit:${kit.id}`
+    const log: ChangeLog = (level, path, message) =>
+      changes.push({ level, entry: key, path, message })
+    const next = afterById.get(kit.id)
+
+    if (!next) {
+      log('breaking', '', 'kit removed')
+      continue
+    }
+
+    if (kit.kind !== next.kind) {
+      log('breaking', '', `kind ${formatValue(kit.kind)} → ${formatValue(next.kind)}`)
+    }
+
+    // Pages using the kit must set every var without default
+    const beforeVars = new Map(kit.vars.map((v) => [v.name, v]))
+    for (const v of next.vars) {
+      const previous = beforeVars.get(v.name)
+      const required = v.default === undefined
+      if (!previous && required) log('breaking', `vars.${v.name}`, 'new var without default')
+      if (!previous && !required) log('additive', `vars.${v.name}`, 'new var with default')
+      if (previous && previous.default !== undefined && required) {
+        log('breaking', `vars.${v.name}`, 'default removed')
+      }
+    }
+    for (const name of beforeVars.keys()) {
+      if (!next.vars.some((v) => v.name === name)) log('metadata', `vars.${name}`, 'var removed')
+    }
+
+    if (kit.name !== next.name || kit.description !== next.description) {
+      log('metadata', '', 'name or description changed')
+    }
+    compareLists(log, 'sections', kit.sections, next.sections)
+  }
+
+  for (const kit of after) {
+    if (!beforeIds.has(kit.id)) {
+      changes.push({ level: 'additive', entry: `kit:${kit.id}`, path: '', message: 'new kit' })
+    }
+  }
+}
+
+/**
+ * Every change between two catalogs (entries in catalog order)
+ */
+function diffCatalogs(before: Catalog, after: Catalog): CatalogChange[] {
+  const changes: CatalogChange[] = []
+
+  for (const pack of before.packs) {
+    if (!after.packs.includes(pack)) {
+      changes.push({ level: 'breaking', entry: `pack:${pack}`, path: '', message: 'pack removed' })
+    }
+  }
+  for (const pack of after.packs) {
+    if (!before.packs.includes(pack)) {
+      changes.push({ level: 'additive', entry: `pack:${pack}`, path: '', message: 'new pack' })
+    }
+  }
+
+  comparePropsEntries(changes, 'section', before.sections ?? [], after.sections)
+  comparePropsEntries(changes, 'shell', before.shells ?? [], after.shells)
+  compareKits(changes, before.kits ?? [], after.kits)
+
+  return changes
+}
+
+/**
+ * Overall change level: the highest level of the changes (null: no change)
+ */
+function getChangeLevel(changes: CatalogChange[]): ChangeLevel | null {
+  if (changes.some((change) => change.level === 'breaking')) return 'breaking'
+  if (changes.some((change) => change.level === 'additive')) return 'additive'
+  if (changes.length > 0) return 'metadata'
+  return null
+}
+
+// =============================================================================
+// CONTENT USAGE (which pages use which entries)
+// =============================================================================
+
+async function findPageFiles(dir: string): Promise<string[]> {
+  let entries
+  try {
+    entries = await readdir(dir, { recursive: true, withFileTypes: true })
+  } catch {
+    return []
+  }
+  return entries
+    .filter((entry) => entry.isFile() && /\.ya?ml$/.test(entry.name))
+    .map((entry) => join(entry.parentPath, entry.name))
+    .filter((path) => path.includes('/pages/'))
+    .sort()
+}
+
+async function readYaml(path: string): Promise<Record<string, unknown> | null> {
+  try {
+    const doc = parseYaml(await readFile(path, 'utf-8'))
+    return doc !== null && typeof doc === 'object' ? (doc as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+async function loadPartial(locale: string, ref: string): Promise<Record<string, unknown> | null> {
+  for (const candidate of [locale, DEFAULT_LOCALE]) {
+    for (const ext of ['yaml', 'yml']) {
+      const doc = await readYaml(join(CONTENT_DIR, candidate, `${ref}.${ext}`))
+      if (doc) return doc
+    }
+  }
+  return null
+}
+
+async function loadKit(id: string): Promise<Record<string, unknown> | null> {
+  return (
+    (await readYaml(join(CONTENT_DIR, 'kits', `${id}.yaml`))) ??
+    readYaml(join(CONTENT_DIR, 'kits', `${id}.yml`))
+  )
+}
+
+/**
+ * Entries a page uses, read like guard-pages (migrated, kit expanded, $ref resolved).
+ * Pages that do not resolve only report their kit.
+ */
+async function getPageUsage(filePath: string, locale: string): Promise<Set<EntryKey>> {
+  const used = new Set<EntryKey>()
+  const doc = await readYaml(filePath)
+  if (!doc) return used
+
+  if (typeof doc.kit === 'string') used.add(`kit:${doc.kit}`)
+
+  const migration = migratePage(doc as RawPage)
+  if (!migration.success) return used
+  const expansion = await expandKit(migration.page, loadKit)
+  if (!expansion.success) return used
+  const resolution = await resolvePartials(expansion.page, (ref) => loadPartial(locale, ref))
+  if (!resolution.success) return used
+
+  const page = resolution.page as {
+    packKey?: unknown
+    shell?: Record<string, { id?: unknown } | null>
+    sections?: Array<{
+      id?: unknown
+      pack?: unknown
+      variants?: Array<{ id?: unknown; pack?: unknown }>
+    }>
+  }
+
+  if (typeof page.packKey === 'string') used.add(`pack:${page.packKey}`)
+  for (const shell of Object.values(page.shell ?? {})) {
+    if (typeof shell?.id === 'string') used.add(`shell:${shell.id}`)
+  }
+  for (const section of Array.isArray(page.sections) ? page.sections : []) {
+    for (const def of [section, ...(section?.variants ?? [])]) {
+      if (typeof def?.id === 'string') used.add(`section:${def.id}`)
+      if (typeof def?.pack === 'string') used.add(`pack:${def.pack}`)
+    }
+  }
+
+  return used
+}
+
+/**
+ * Pages using each entry (paths relative to the repo)
+ */
+async function getContentUsage(): Promise<Map<EntryKey, string[]>> {
+  const usage = new Map<EntryKey, string[]>()
+
+  for (const filePath of await findPageFiles(CONTENT_DIR)) {
+    const relativePath = relative(ROOT, filePath)
+    const locale = relativePath.match(/^content\/([^/]+)\/pages\//)?.[1] ?? DEFAULT_LOCALE
+    for (const key of await getPageUsage(filePath, locale)) {
+      usage.set(key, [...(usage.get(key) ?? []), relativePath])
+    }
+  }
+
+  return usage
+}
+
+// =============================================================================
+// BASE CATALOG (git)
+// =============================================================================
+
+function parseBaseRef(args: string[]): string {
+  const index = args.indexOf('--base')
+  if (index === -1) return 'HEAD'
+  const ref = args[index + 1]
+  if (!ref || ref.startsWith('--')) {
+    throw new Error('--base expects a git ref (e.g. --base v1.4.0)')
+  }
+  return ref
+}
+
+function readBaseCatalog(ref: string): Catalog {
+  let content: string
+  try {
+    content = execFileSync('git', ['show', `${ref}:${CATALOG_FILE}`], {
+      cwd: ROOT,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe']
+    })
+  } catch {
+    throw new Error(`No ${CATALOG_FILE} at ${ref} (is it a commit or tag of this repository?)`)
+  }
+  return JSON.parse(content) as Catalog
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+const LEVEL_HEADINGS: Record<ChangeLevel, string> = {
+  breaking: '❌ BREAKING',
+  additive: '➕ ADDITIVE',
+  metadata: '📝 METADATA'
+}
+
+function printChanges(
+  level: ChangeLevel,
+  changes: CatalogChange[],
+  usage: Map<EntryKey, string[]>
+): void {
+  const selected = changes.filter((change) => change.level === level)
+  if (selected.length === 0) return
+
+  console.log(`\n${LEVEL_HEADINGS[level]} (${selected.length})`)
+
+  const entries = [...new Set(selected.map((change) => change.entry))]
+  for (const entry of entries) {
+    console.log(`\n   ${entry.replace(':', ' ')}`)
+    for (const change of selected.filter((c) => c.entry === entry)) {
+      console.log(`   - ${change.path ? `${change.path}: ` : ''}${change.message}`)
+    }
+
+    if (level !== 'breaking') continue
+    const pages = usage.get(entry) ?? []
+    if (pages.length === 0) {
+      console.log('   └─ no content page uses it')
+    } else {
+      console.log(`   └─ used by ${pages.length} page(s):`)
+      for (const page of pages) console.log(`      ${page}`)
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const baseRef = parseBaseRef(process.argv.slice(2))
+
+  console.log(`📦 Catalog diff: ${baseRef}:${CATALOG_FILE} → fresh build\n`)
+
+  const before = readBaseCatalog(baseRef)
+  const after = await buildCatalog(ROOT)
+  const changes = diffCatalogs(before, after)
+
+  console.log(`   Base version:  ${before.version}`)
+  console.log(`   Fresh version: ${after.version}`)
+
+  if (changes.length === 0) {
+    console.log('\n✅ No catalog change\n')
+    return
+  }
+
+  const usage = changes.some((change) => change.level === 'breaking')
+    ? await getContentUsage()
+    : new Map<EntryKey, string[]>()
+
+  for (const level of ['breaking', 'additive', 'metadata'] as const) {
+    printChanges(level, changes, usage)
+  }
+
+  const level = getChangeLevel(changes)!
+  const reasons: Record<ChangeLevel, string> = {
+    breaking: 'run pnpm guard:pages and update the pages listed above',
+    additive: 'existing pages still valid',
+    metadata: 'no schema change'
+  }
+  console.log(`\n🏷️  Change level: ${level.toUpperCase()} (${reasons[level]})\n`)
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err instanceof Error ? err.message : err)
+  process.exit(1)
+})
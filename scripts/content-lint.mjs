@@ -116,6 +116,7 @@ function parseSimpleYaml(yaml) {
 function parseYamlFile(content) {
   const result = {
     kind: null,
+    kit: null,
     seo: null,
     sections: null,
     packKey: null,
@@ -128,6 +129,12 @@ function parseYamlFile(content) {
     result.kind = kindMatch[1]
   }
 
+  // Check for kit field (seo/sections then come from content/kits/<id>.yaml)
+  const kitMatch = content.match(/^kit:\s*['"]?([\w-]+)['"]?\s*$/m)
+  if (kitMatch) {
+    result.kit = kitMatch[1]
+  }
+
   // Check for packKey field
   const packKeyMatch = content.match(/^packKey:\s*['"]?(\w+)['"]?\s*$/m)
   if (packKeyMatch) {
@@ -312,9 +319,11 @@ async function validatePageFile(filePath) {
     errors.push(`Invalid kind "${parsed.kind}" — must be one of: ${VALID_PAGE_KINDS.join(', ')}`)
   }
 
-  // Check seo (required)
+  // Check seo (required, unless provided by a kit — the expanded page is checked by guard:pages)
   if (!parsed.seo) {
-    errors.push('Missing required block: seo')
+    if (!parsed.kit) {
+      errors.push('Missing required block: seo')
+    }
   } else {
     if (!parsed.seo.title) {
       errors.push('Missing required field: seo.title')
@@ -324,8 +333,8 @@ async function validatePageFile(filePath) {
     }
   }
 
-  // Check sections (required, at least 1)
-  if (parsed.sections === null || parsed.sections === 0) {
+  // Check sections (required, at least 1, unless provided by a kit)
+  if (!parsed.kit && (parsed.sections === null || parsed.sections === 0)) {
     errors.push('Missing or empty sections array (at least 1 section required)')
   }
 
@@ -381,8 +390,9 @@ async function checkMultilingualCoverage(pageFiles) {
 
   for (const filePath of pageFiles) {
     const relativePath = relative(ROOT, filePath)
-    // Extract locale and slug from path like content/fr/pages/site/about.yaml
-    const match = relativePath.match(/content\/(\w{2})\/pages\/(\w+)\/(.+)\.ya?ml$/)
+    // Extract locale and slug from path like content/fr-CA/pages/site/about.yaml
+    // (any locale directory, region codes included: coverage compares the directories found)
+    const match = relativePath.match(/content\/([^/]+)\/pages\/(\w+)\/(.+)\.ya?ml$/)
     if (!match) continue
 
     const [, locale, kind, slug] = match
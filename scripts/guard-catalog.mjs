@@ -9,12 +9,14 @@
  * Blocks build if:
  * - public/catalog.json doesn't exist
  * - public/catalog.json is out of date (sections/shells/packs changed but catalog not rebuilt)
+ * - public/schemas/ (JSON Schemas, written by the same build) is out of date
+ * - public/catalog.d.ts (TypeScript types, written by the same build) is out of date
  *
  * Run: node scripts/guard-catalog.mjs
  */
 
 import { execSync } from 'node:child_process'
-import { readFile, stat } from 'node:fs/promises'
+import { readdir, readFile, stat } from 'node:fs/promises'
 import { join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { dirname } from 'node:path'
@@ -24,6 +26,8 @@ const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 const ROOT = join(__dirname, '..')
 const CATALOG_PATH = join(ROOT, 'public', 'catalog.json')
+const SCHEMAS_DIR = join(ROOT, 'public', 'schemas')
+const TYPES_PATH = join(ROOT, 'public', 'catalog.d.ts')
 
 /**
  * Get content hash of a file (excluding generatedAt field)
@@ -37,7 +41,24 @@ async function getCatalogHash(filePath) {
     delete catalog.generatedAt
 
     const stableContent = JSON.stringify(catalog, null, 2)
-    return createHash('sha256').update(stableContent).digest('hex').slice(0, 16)
+    const hash = createHash('sha256').update(stableContent)
+
+    // JSON Schemas: every file name + content (missing directory = no schemas)
+    const files = await readdir(SCHEMAS_DIR, { recursive: true, withFileTypes: true }).catch(
+      () => []
+    )
+    const schemaPaths = files
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(entry.parentPath, entry.name))
+      .sort()
+    for (const schemaPath of schemaPaths) {
+      hash.update(schemaPath.slice(ROOT.length)).update(await readFile(schemaPath))
+    }
+
+    // TypeScript types (missing file = no types)
+    hash.update(await readFile(TYPES_PATH).catch(() => ''))
+
+    return hash.digest('hex').slice(0, 16)
   } catch {
     return null
   }
@@ -104,7 +125,9 @@ async function main() {
     console.log(`\n❌ Catalog is out of date!`)
     console.log(`   Old hash: ${currentHash}`)
     console.log(`   New hash: ${newHash}`)
-    console.log(`   └─ Commit the updated public/catalog.json`)
+    console.log(
+      `   └─ Commit the updated public/catalog.json, public/schemas/ and public/catalog.d.ts`
+    )
     console.error('\n❌ Catalog Guard failed\n')
     process.exit(1)
   }
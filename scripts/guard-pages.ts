@@ -5,13 +5,22 @@
  * This is the "final boss" guard — validates each page as a complete entity.
  *
  * Validates:
+ * 0. SCHEMA VERSION: migrates in memory, warns if the file is outdated
+ *    KITS: expands kit + vars (content/kits), reports unresolved placeholders
+ *    PARTIALS: resolves $ref (content/<locale>/partials), reports dependencies
  * 1. STRUCTURE: kind, seo, sections array
  * 2. PACKS: page.packKey + section.pack → must be in KNOWN_PACKS
  * 3. SECTIONS: id exists + props validate STRICTLY via Zod schema
+ *    (A/B experiments: every variant is validated as its own section)
  * 4. SHELLS: id exists + slot match + props validate STRICTLY via Zod schema
- * 5. BUSINESS RULES: noindex warnings, strict mode shells
+ * 5. BUSINESS RULES: noindex warnings, strict mode shells,
+ *    publishing windows (invalid → error, already expired → warning),
+ *    preview access (p/demo only, expired → warning), drafts (counted per locale)
  * 6. I18N: translation coverage (warnings only)
  *
+ * Checks 0-5 live in app/schema/page.validate.ts (shared with the page write API);
+ * this script reads the files and reports across pages (i18n, partials, redirects).
+ *
  * Run: pnpm guard:pages
  * (which calls: npx tsx scripts/guard-pages.ts)
  *
@@ -24,90 +33,62 @@ import { fileURLToPath } from 'node:url'
 import { dirname } from 'node:path'
 import { parse as parseYaml } from 'yaml'
 
-// Manifests (data-only, no Vue/Nuxt deps — script-safe)
-import {
-  hasSectionId,
-  validateSectionProps,
-  getSectionIds
-} from '../app/sections/sections.manifest'
-import {
-  hasShellId,
-  isValidShellSlot,
-  validateShellProps,
-  getShellIds
-} from '../app/shells/shells.manifest'
+// Registries (data-only, no Vue/Nuxt deps — script-safe), listed in the report
+import { getSectionIds } from '../app/sections/sections.manifest'
+import { getShellIds } from '../app/shells/shells.manifest'
 // Use packs.manifest.ts (script-safe) instead of packRegistry.ts (has Nuxt runtime)
-import { getKnownPacks, isKnownPack } from '../app/packs/packs.manifest'
+import { getKnownPacks } from '../app/packs/packs.manifest'
 // Scale thresholds from centralized page policy
 import { SCALE_THRESHOLDS } from '../app/config/pagePolicy'
+// Locale segment of page files (configured locales, region codes included), fallback chains
+import { getLocaleChain, parseContentPath } from '../app/config/localePaths'
+// Per-page checks: migrations, kits, partials, manifests, business rules
+// (shared with the page write API)
+import {
+  validatePageDefinition,
+  type PageCandidate,
+  type PageValidationResult
+} from '../app/schema/page.validate'
+// Page aliases + redirect map (shared with server/utils/redirects.ts)
+import {
+  RedirectsFileSchema,
+  analyzeRedirects,
+  buildRedirectTable,
+  getPageUrlPath,
+  type RedirectPage,
+  type RedirectRule
+} from '../app/config/redirects'
+import type { PageKind } from '../app/config/pagePolicy'
+
+/** NUXT_PUBLIC_LOCALE_FALLBACKS (JSON, same as nuxt.config.ts), e.g. {"fr-CA":["fr","en"]} */
+function parseLocaleFallbacks(envValue: string | undefined): Record<string, string[]> {
+  if (!envValue) return {}
+  try {
+    return JSON.parse(envValue)
+  } catch {
+    return {}
+  }
+}
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 const ROOT = join(__dirname, '..')
 const CONTENT_DIR = join(ROOT, 'content')
+const KITS_DIR = join(CONTENT_DIR, 'kits')
+const REDIRECTS_FILE = join(CONTENT_DIR, 'redirects.yaml')
+// Partials fall back along the locale's fallback chain, like loadPage
+const DEFAULT_LOCALE = process.env.NUXT_PUBLIC_DEFAULT_LOCALE || 'fr'
+const LOCALES = (process.env.NUXT_PUBLIC_LOCALES || 'fr,en').split(',').map((l) => l.trim())
+const LOCALE_FALLBACKS = parseLocaleFallbacks(process.env.NUXT_PUBLIC_LOCALE_FALLBACKS)
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface PageSeo {
-  title?: string | null
-  description?: string | null
-  noindex?: boolean | null
-}
-
-interface SectionDef {
-  id: string
-  props?: Record<string, unknown>
-  pack?: string
-  overrides?: Record<string, string>
-}
-
-interface ShellComponent {
-  id: string
-  props?: Record<string, unknown>
-}
-
-interface PageShell {
-  header?: ShellComponent | string | null
-  footer?: ShellComponent | string | null
-}
-
-interface PageDef {
-  kind?: string
-  seo?: PageSeo
-  packKey?: string
-  shell?: PageShell
-  sections?: SectionDef[]
-}
-
-interface ValidationResult {
+interface ValidationResult extends PageValidationResult {
   path: string
   locale: string
-  kind: string
   slug: string
-  errors: string[]
-  warnings: string[]
-}
-
-// =============================================================================
-// SHELL NORMALIZATION (script-only, mirrors runtime logic)
-// =============================================================================
-
-function normalizeShellComponent(
-  raw: ShellComponent | string | null | undefined
-): ShellComponent | null {
-  if (raw === null || raw === undefined) {
-    return null
-  }
-  if (typeof raw === 'string') {
-    return { id: raw, props: {} }
-  }
-  // Object format
-  return {
-    id: raw.id,
-    props: raw.props ?? {}
-  }
 }
 
 // =============================================================================
@@ -148,13 +129,13 @@ async function findPageFiles(): Promise<string[]> {
 // YAML PARSING (robust, with yaml package)
 // =============================================================================
 
-function parseYamlFile(content: string, filePath: string): PageDef {
+function parseYamlFile(content: string, filePath: string): PageCandidate {
   try {
     const parsed = parseYaml(content)
     if (parsed === null || typeof parsed !== 'object') {
       throw new Error('YAML content is not an object')
     }
-    return parsed as PageDef
+    return parsed as PageCandidate
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err)
     throw new Error(`Failed to parse YAML file ${filePath}: ${message}`)
@@ -162,195 +143,142 @@ function parseYamlFile(content: string, filePath: string): PageDef {
 }
 
 // =============================================================================
-// VALIDATION
+// PARTIALS (filesystem loader, mirrors loadPage locale fallback)
 // =============================================================================
 
-async function validatePage(filePath: string): Promise<ValidationResult> {
-  const relativePath = relative(ROOT, filePath)
-  const content = await readFile(filePath, 'utf-8')
-  const errors: string[] = []
-  const warnings: string[] = []
-
-  // Extract locale and kind from path
-  const pathMatch = relativePath.match(/content\/(\w{2})\/pages\/(\w+)\/(.+)\.ya?ml$/)
-  const locale = pathMatch?.[1] ?? 'unknown'
-  const pathKind = pathMatch?.[2] ?? 'unknown'
-  const slug = pathMatch?.[3] ?? 'unknown'
-
-  // Parse YAML
-  let page: PageDef
-  try {
-    page = parseYamlFile(content, relativePath)
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err)
-    errors.push(message)
-    return { path: relativePath, locale, kind: pathKind, slug, errors, warnings }
-  }
+const partialCache = new Map<string, Record<string, unknown> | null>()
 
-  // -------------------------------------------------------------------------
-  // 1. STRUCTURE VALIDATION
-  // -------------------------------------------------------------------------
-
-  // kind
-  if (!page.kind) {
-    errors.push('Missing required field: kind')
-  } else if (!['site', 'p', 'demo'].includes(page.kind)) {
-    errors.push(`Invalid kind "${page.kind}" — must be one of: site, p, demo`)
-  } else if (page.kind !== pathKind) {
-    errors.push(`Path/kind mismatch: file is in "${pathKind}" folder but kind is "${page.kind}"`)
-  }
-
-  // seo
-  if (!page.seo?.title) {
-    errors.push('Missing required field: seo.title')
-  }
-  if (!page.seo?.description) {
-    errors.push('Missing required field: seo.description')
-  }
+async function readPartialFile(
+  locale: string,
+  ref: string
+): Promise<Record<string, unknown> | null> {
+  for (const ext of ['yaml', 'yml']) {
+    const filePath = join(CONTENT_DIR, locale, `${ref}.${ext}`)
+    if (partialCache.has(filePath)) return partialCache.get(filePath)!
 
-  // sections
-  if (!page.sections || !Array.isArray(page.sections) || page.sections.length === 0) {
-    errors.push('Missing or empty sections array (at least 1 section required)')
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch {
+      continue
+    }
+    const doc = parseYamlFile(content, relative(ROOT, filePath)) as Record<string, unknown>
+    partialCache.set(filePath, doc)
+    return doc
   }
+  return null
+}
 
-  // -------------------------------------------------------------------------
-  // 2. PACKS VALIDATION
-  // -------------------------------------------------------------------------
-
-  const knownPacks = getKnownPacks()
-
-  if (page.packKey && !isKnownPack(page.packKey)) {
-    errors.push(
-      `Unknown packKey "${page.packKey}" — known packs: ${[...knownPacks].join(', ')}. ` +
-        `Add to app/packs/packs.manifest.ts KNOWN_PACKS`
-    )
+async function loadPartial(locale: string, ref: string): Promise<Record<string, unknown> | null> {
+  const ctx = { defaultLocale: DEFAULT_LOCALE, locales: LOCALES, localeFallbacks: LOCALE_FALLBACKS }
+  for (const contentLocale of getLocaleChain(locale, ctx)) {
+    const doc = await readPartialFile(contentLocale, ref)
+    if (doc) return doc
   }
+  return null
+}
 
-  // -------------------------------------------------------------------------
-  // 3. SECTIONS VALIDATION (id + pack + STRICT props validation)
-  // -------------------------------------------------------------------------
+// =============================================================================
+// KITS (filesystem loader, content/kits is not localized)
+// =============================================================================
 
-  const sections = page.sections ?? []
+const kitCache = new Map<string, Record<string, unknown> | null>()
 
-  for (let i = 0; i < sections.length; i++) {
-    const section = sections[i]
+async function loadKit(id: string): Promise<Record<string, unknown> | null> {
+  if (kitCache.has(id)) return kitCache.get(id)!
 
-    // Check section ID exists
-    if (!section?.id) {
-      errors.push(`Section[${i}]: Missing id`)
+  let doc: Record<string, unknown> | null = null
+  for (const ext of ['yaml', 'yml']) {
+    const filePath = join(KITS_DIR, `${id}.${ext}`)
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch {
       continue
     }
-
-    if (!hasSectionId(section.id)) {
-      errors.push(
-        `Section[${i}] (${section.id}): Unknown section id — ` +
-          `register in app/sections/sections.manifest.ts or create app/sections/${section.id}/`
-      )
-      continue // Skip props validation if section doesn't exist
-    }
-
-    // Check section pack
-    if (section.pack && !isKnownPack(section.pack)) {
-      errors.push(
-        `Section[${i}] (${section.id}): Unknown pack "${section.pack}" — known packs: ${[...knownPacks].join(', ')}`
-      )
-    }
-
-    // STRICT props validation via Zod schema
-    const propsToValidate = section.props ?? {}
-    const propsResult = validateSectionProps(section.id, propsToValidate)
-
-    if (!propsResult.success) {
-      errors.push(`Section[${i}] (${section.id}): Invalid props — ${propsResult.error}`)
-    }
+    doc = parseYamlFile(content, relative(ROOT, filePath)) as Record<string, unknown>
+    break
   }
 
-  // -------------------------------------------------------------------------
-  // 4. SHELLS VALIDATION (id + slot + STRICT props validation)
-  // -------------------------------------------------------------------------
-
-  const shell = page.shell ?? {}
-
-  for (const slot of ['header', 'footer'] as const) {
-    const rawShellDef = shell[slot]
-
-    // Normalize shell component
-    const shellComponent = normalizeShellComponent(rawShellDef)
-
-    // null is valid
-    if (shellComponent === null) continue
-
-    const shellId = shellComponent.id
-    if (!shellId) continue
+  kitCache.set(id, doc)
+  return doc
+}
 
-    // Check shell ID exists
-    if (!hasShellId(shellId)) {
-      errors.push(
-        `shell.${slot}: Unknown shell id "${shellId}" — ` +
-          `register in app/shells/shells.manifest.ts or create app/shells/${shellId}/`
-      )
-      continue
-    }
+// =============================================================================
+// REDIRECTS (content/redirects.yaml, same rules as server/utils/redirects.ts)
+// =============================================================================
 
-    // Check slot/prefix match
-    if (!isValidShellSlot(shellId, slot)) {
-      errors.push(
-        `shell.${slot}: Invalid shell "${shellId}" — ` +
-          `${slot} slot requires shell id starting with "${slot}."`
-      )
-    }
+async function loadRedirectRules(errors: string[]): Promise<RedirectRule[]> {
+  let content: string
+  try {
+    content = await readFile(REDIRECTS_FILE, 'utf-8')
+  } catch {
+    return []
+  }
 
-    // STRICT props validation via Zod schema
-    const propsToValidate = shellComponent.props ?? {}
-    const propsResult = validateShellProps(shellId, propsToValidate)
+  let doc: unknown
+  try {
+    doc = parseYaml(content) ?? {}
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    errors.push(`${relative(ROOT, REDIRECTS_FILE)}: ${message}`)
+    return []
+  }
 
-    if (!propsResult.success) {
-      errors.push(`shell.${slot} (${shellId}): Invalid props — ${propsResult.error}`)
+  const parsed = RedirectsFileSchema.safeParse(doc)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      errors.push(`${relative(ROOT, REDIRECTS_FILE)}: ${issue.path.join('.')}: ${issue.message}`)
     }
+    return []
   }
+  return parsed.data.redirects
+}
 
-  // -------------------------------------------------------------------------
-  // 5. BUSINESS RULES
-  // -------------------------------------------------------------------------
-
-  const kind = page.kind ?? 'unknown'
-  const isPrivateKind = kind === 'p' || kind === 'demo'
-  const shellStrictMode = process.env.NUXT_PUBLIC_SHELL_STRICT_PRIVATE === 'true'
+// =============================================================================
+// VALIDATION
+// =============================================================================
 
-  // noindex warning for p/demo
-  if (isPrivateKind && page.seo?.noindex === false) {
-    warnings.push(
-      `seo.noindex is explicitly false, but ${kind} pages are ALWAYS noindex at runtime — ` +
-        `remove noindex: false to avoid confusion`
-    )
-  }
+async function validatePage(filePath: string): Promise<ValidationResult> {
+  const relativePath = relative(ROOT, filePath)
+  const content = await readFile(filePath, 'utf-8')
 
-  // Shell strict mode for p/demo
-  const headerComponent = normalizeShellComponent(shell.header)
-  const footerComponent = normalizeShellComponent(shell.footer)
+  // Extract locale and kind from path (configured locales, nested slugs)
+  const contentPath = `/${relative(CONTENT_DIR, filePath).replace(/\.ya?ml$/, '')}`
+  const parsedPath = parseContentPath(contentPath, LOCALES)
+  const locale = parsedPath?.locale ?? 'unknown'
+  const pathKind = parsedPath?.kind ?? 'unknown'
+  const slug = parsedPath?.slug ?? 'unknown'
 
-  if (isPrivateKind && shellStrictMode) {
-    if (headerComponent && headerComponent.id) {
-      errors.push(
-        `shell.header must be null for ${kind} pages when NUXT_PUBLIC_SHELL_STRICT_PRIVATE=true`
-      )
-    }
-    if (footerComponent && footerComponent.id) {
-      errors.push(
-        `shell.footer must be null for ${kind} pages when NUXT_PUBLIC_SHELL_STRICT_PRIVATE=true`
-      )
-    }
-  } else if (isPrivateKind) {
-    // Flex mode: warn only
-    if (headerComponent && headerComponent.id) {
-      warnings.push(`${kind} page has shell.header — consider using null for cleaner landing pages`)
-    }
-    if (footerComponent && footerComponent.id) {
-      warnings.push(`${kind} page has shell.footer — consider using null for cleaner landing pages`)
+  // Parse YAML
+  let rawPage: PageCandidate
+  try {
+    rawPage = parseYamlFile(content, relativePath)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return {
+      path: relativePath,
+      locale,
+      kind: pathKind,
+      slug,
+      issues: [{ severity: 'error', pointer: '', message, hint: 'fix the YAML syntax' }],
+      errors: [message],
+      warnings: [],
+      kit: null,
+      partials: [],
+      aliases: [],
+      draft: false
     }
   }
 
-  return { path: relativePath, locale, kind, slug, errors, warnings }
+  const result = await validatePageDefinition(
+    rawPage,
+    { kind: pathKind, slug },
+    { loadKit, loadPartial: (ref) => loadPartial(locale, ref) },
+    { shellStrictPrivate: process.env.NUXT_PUBLIC_SHELL_STRICT_PRIVATE === 'true' }
+  )
+
+  return { path: relativePath, locale, slug, ...result }
 }
 
 // =============================================================================
@@ -448,10 +376,110 @@ async function main(): Promise<void> {
       totalErrors += result.errors.length
       totalWarnings += result.warnings.length
     }
+
+    if (result.kit) {
+      console.log(`   └─ 🧰 Kit: ${result.kit}`)
+    }
+    if (result.partials.length > 0) {
+      console.log(`   └─ 🧩 Partials: ${result.partials.join(', ')}`)
+    }
+    if (result.draft) {
+      console.log('   └─ 📝 Draft (404 except in preview)')
+    }
   }
 
   console.log('')
 
+  // Partials dependency report (which pages break if a partial changes)
+  console.log('── Partials ───────────────────────────────────────────────────\n')
+
+  const pagesByPartial = new Map<string, string[]>()
+  for (const result of results) {
+    for (const partial of result.partials) {
+      const key = `${result.locale}: ${partial}`
+      if (!pagesByPartial.has(key)) pagesByPartial.set(key, [])
+      pagesByPartial.get(key)!.push(`${result.kind}/${result.slug}`)
+    }
+  }
+
+  if (pagesByPartial.size === 0) {
+    console.log('   No page uses partials\n')
+  } else {
+    for (const key of [...pagesByPartial.keys()].sort()) {
+      console.log(`   🧩 ${key} ← ${pagesByPartial.get(key)!.join(', ')}`)
+    }
+    console.log('')
+  }
+
+  // Drafts per locale (not served to visitors, easy to forget)
+  console.log('── Drafts ─────────────────────────────────────────────────────\n')
+
+  const draftsByLocale = new Map<string, string[]>()
+  for (const result of results) {
+    if (!result.draft) continue
+    if (!draftsByLocale.has(result.locale)) draftsByLocale.set(result.locale, [])
+    draftsByLocale.get(result.locale)!.push(`${result.kind}/${result.slug}`)
+  }
+
+  if (draftsByLocale.size === 0) {
+    console.log('   No draft pages\n')
+  } else {
+    for (const locale of [...draftsByLocale.keys()].sort()) {
+      const drafts = draftsByLocale.get(locale)!
+      console.log(`   📝 ${locale}: ${drafts.length} draft(s) — ${drafts.join(', ')}`)
+    }
+    console.log('')
+  }
+
+  // Redirects: page aliases + content/redirects.yaml (loops, chains, collisions)
+  console.log('── Redirects ──────────────────────────────────────────────────\n')
+
+  const redirectErrors: string[] = []
+  const rules = await loadRedirectRules(redirectErrors)
+  const ctx = { defaultLocale: DEFAULT_LOCALE, locales: LOCALES }
+  const pageKinds = ['site', 'p', 'demo']
+
+  const redirectPages: RedirectPage[] = results
+    .filter((result) => pageKinds.includes(result.kind))
+    .map((result) => ({
+      kind: result.kind as PageKind,
+      slug: result.slug,
+      locale: result.locale,
+      aliases: result.aliases
+    }))
+
+  // Default-locale pages are also served in every other locale (fallback)
+  const pagePaths = new Set<string>()
+  for (const page of redirectPages) {
+    const locales = page.locale === DEFAULT_LOCALE ? LOCALES : [page.locale]
+    for (const locale of locales) {
+      pagePaths.add(getPageUrlPath(page.kind, page.slug, locale, ctx))
+    }
+  }
+
+  const redirectTable = buildRedirectTable(redirectPages, rules, ctx)
+  const redirectIssues = analyzeRedirects(redirectTable, pagePaths)
+  for (const issue of redirectIssues) {
+    if (issue.severity === 'error') redirectErrors.push(issue.message)
+  }
+  const redirectWarnings = redirectIssues
+    .filter((issue) => issue.severity === 'warning')
+    .map((issue) => issue.message)
+
+  if (redirectErrors.length === 0 && redirectWarnings.length === 0) {
+    console.log(`   ✅ ${redirectTable.redirects.size} redirect(s), no loop, chain or collision\n`)
+  } else {
+    for (const error of redirectErrors) {
+      console.log(`   ❌ ${error}`)
+    }
+    for (const warning of redirectWarnings) {
+      console.log(`   ⚠️  ${warning}`)
+    }
+    console.log('')
+    totalErrors += redirectErrors.length
+    totalWarnings += redirectWarnings.length
+  }
+
   // I18n coverage check
   console.log('── Multilingual Coverage ──────────────────────────────────────\n')
 
@@ -474,7 +502,7 @@ async function main(): Promise<void> {
     console.log(
       `   ⚠️  SCALE WARNING: ${pageFiles.length} pages exceeds threshold (${SCALE_THRESHOLDS.PAGES_WARNING})`
     )
-    console.log(`      Consider: pagination, sitemap index, or content review`)
+    console.log(`      Consider: pagination or content review (sitemap.xml switches to an index)`)
     totalWarnings++
   } else {
     console.log(`   ✅ Page count OK (${pageFiles.length} < ${SCALE_THRESHOLDS.PAGES_WARNING})`)
@@ -497,6 +525,10 @@ async function main(): Promise<void> {
       '   • Invalid props → Check schema in app/sections/{id}/schema.ts (Zod issues shown)'
     )
     console.log('   • Shell slot mismatch → header.* for header, footer.* for footer')
+    console.log('   • Partial not found → Create content/{locale}/partials/{name}.yaml')
+    console.log('   • Kit not found → Create content/kits/{id}.yaml (see docs/kits/README.md)')
+    console.log('   • Unresolved placeholder → Add the name to the page vars (or a kit default)')
+    console.log('   • Redirect loop/collision → Fix aliases or content/redirects.yaml')
     console.log('')
     process.exit(1)
   }
@@ -0,0 +1,246 @@
+/**
+ * migrate-content.ts
+ *
+ * Rewrites Page Builder YAML files to the current PAGE_SCHEMA_VERSION.
+ * Uses the SAME ordered migrations as loadPage and guard-pages
+ * (app/schema/page.migrations.ts), so disk and runtime never disagree.
+ *
+ * - Version-only upgrades are a one-line text edit (`schemaVersion` after `kind`)
+ * - Otherwise only the top-level keys changed by a migration are re-created
+ *   (comments on untouched keys are preserved)
+ *
+ * Run: pnpm content:migrate           (rewrite files)
+ *      pnpm content:migrate --check   (dry run, exit 1 if any file is outdated)
+ * (which calls: npx tsx scripts/migrate-content.ts)
+ *
+ * NOTE: No shebang — always run via package.json script for portability.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { isDeepStrictEqual } from 'node:util'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { dirname } from 'node:path'
+import { parseDocument, isMap, isScalar, type Document } from 'yaml'
+
+import { PAGE_SCHEMA_VERSION, migratePage, type RawPage } from '../app/schema/page.migrations'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+const ROOT = join(__dirname, '..')
+const CONTENT_DIR = join(ROOT, 'content')
+
+const CHECK_ONLY = process.argv.includes('--check')
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MigrationOutcome {
+  path: string
+  status: 'current' | 'migrated' | 'error'
+  fromVersion?: number
+  steps: string[]
+  error?: string
+}
+
+// =============================================================================
+// FILE SCANNING
+// =============================================================================
+
+async function findPageFiles(): Promise<string[]> {
+  const files: string[] = []
+
+  async function scanDir(dir: string): Promise<void> {
+    let entries
+    try {
+      entries = await readdir(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name)
+
+      if (entry.isDirectory()) {
+        await scanDir(fullPath)
+      } else if (entry.isFile() && (entry.name.endsWith('.yaml') || entry.name.endsWith('.yml'))) {
+        if (fullPath.includes('/pages/')) {
+          files.push(fullPath)
+        }
+      }
+    }
+  }
+
+  await scanDir(CONTENT_DIR)
+
+  // STABLE OUTPUT: sort files by path for deterministic order
+  return files.sort()
+}
+
+// =============================================================================
+// YAML WRITERS
+// =============================================================================
+
+/**
+ * Text-level update when only the version changes (file otherwise byte-identical)
+ * Replaces a top-level `schemaVersion:` line, or inserts one right after `kind:`
+ */
+function setSchemaVersionLine(content: string): string {
+  const versionLine = `schemaVersion: ${PAGE_SCHEMA_VERSION}`
+
+  if (/^schemaVersion:.*$/m.test(content)) {
+    return content.replace(/^schemaVersion:.*$/m, versionLine)
+  }
+  if (/^kind:.*$/m.test(content)) {
+    return content.replace(/^(kind:.*)$/m, `$1\n${versionLine}`)
+  }
+  return `${versionLine}\n${content}`
+}
+
+/**
+ * Document-level update when a migration changed other top-level keys
+ * Only changed keys are re-created; comments on untouched keys are kept
+ */
+function rewriteDocument(doc: Document, migrated: RawPage, changedKeys: string[]): string {
+  for (const key of changedKeys) {
+    if (key in migrated) {
+      doc.set(key, doc.createNode(migrated[key]))
+    } else {
+      doc.delete(key)
+    }
+  }
+
+  if (doc.has('schemaVersion')) {
+    doc.set('schemaVersion', PAGE_SCHEMA_VERSION)
+  } else if (isMap(doc.contents)) {
+    const items = doc.contents.items
+    const kindIndex = items.findIndex((pair) => isScalar(pair.key) && pair.key.value === 'kind')
+    items.splice(kindIndex + 1, 0, doc.createPair('schemaVersion', PAGE_SCHEMA_VERSION))
+  }
+
+  // lineWidth 0: never fold long strings into new line breaks
+  return doc.toString({ lineWidth: 0 })
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+async function migrateFile(filePath: string): Promise<MigrationOutcome> {
+  const relativePath = relative(ROOT, filePath)
+  const content = await readFile(filePath, 'utf-8')
+
+  const doc = parseDocument(content)
+  if (doc.errors.length > 0) {
+    return {
+      path: relativePath,
+      status: 'error',
+      steps: [],
+      error: `Failed to parse YAML: ${doc.errors[0]?.message}`
+    }
+  }
+  if (!isMap(doc.contents)) {
+    return {
+      path: relativePath,
+      status: 'error',
+      steps: [],
+      error: 'YAML content is not an object'
+    }
+  }
+
+  const rawPage = doc.toJS() as RawPage
+  const result = migratePage(rawPage)
+
+  if (!result.success) {
+    return { path: relativePath, status: 'error', steps: [], error: result.error }
+  }
+  if (result.applied.length === 0) {
+    return { path: relativePath, status: 'current', steps: [] }
+  }
+
+  const steps = result.applied.map((m) => `${m.from} → ${m.from + 1}: ${m.description}`)
+
+  if (!CHECK_ONLY) {
+    const migrated = result.page
+    const changedKeys = Object.keys({ ...rawPage, ...migrated }).filter(
+      (key) => key !== 'schemaVersion' && !isDeepStrictEqual(rawPage[key], migrated[key])
+    )
+
+    const output =
+      changedKeys.length === 0
+        ? setSchemaVersionLine(content)
+        : rewriteDocument(doc, migrated, changedKeys)
+
+    await writeFile(filePath, output, 'utf-8')
+  }
+
+  return { path: relativePath, status: 'migrated', fromVersion: result.fromVersion, steps }
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<void> {
+  console.log(
+    `🔁 Content Migrate: upgrading pages to schemaVersion ${PAGE_SCHEMA_VERSION}` +
+      `${CHECK_ONLY ? ' (--check, no files written)' : ''}...\n`
+  )
+
+  const pageFiles = await findPageFiles()
+
+  if (pageFiles.length === 0) {
+    console.log('⚠️  No page definitions found in content/**/pages/**/*.yaml\n')
+    process.exit(0)
+  }
+
+  // Sequential to maintain order
+  const outcomes: MigrationOutcome[] = []
+  for (const file of pageFiles) {
+    outcomes.push(await migrateFile(file))
+  }
+
+  for (const outcome of outcomes) {
+    if (outcome.status === 'current') {
+      console.log(`✅ ${outcome.path}`)
+    } else if (outcome.status === 'migrated') {
+      const verb = CHECK_ONLY ? 'needs migration' : 'migrated'
+      console.log(`🔁 ${outcome.path} (${verb} from schemaVersion ${outcome.fromVersion})`)
+      for (const step of outcome.steps) {
+        console.log(`   └─ ${step}`)
+      }
+    } else {
+      console.log(`❌ ${outcome.path}`)
+      console.log(`   └─ ❌ ${outcome.error}`)
+    }
+  }
+
+  const migrated = outcomes.filter((o) => o.status === 'migrated').length
+  const failed = outcomes.filter((o) => o.status === 'error').length
+
+  console.log('')
+  console.log('── Summary ────────────────────────────────────────────────────\n')
+  console.log(`   📄 Pages analyzed: ${outcomes.length}`)
+  console.log(`   🔁 ${CHECK_ONLY ? 'Outdated' : 'Migrated'}: ${migrated}`)
+  console.log(`   ❌ Errors: ${failed}`)
+  console.log('')
+
+  if (failed > 0) {
+    console.error('❌ Content Migrate FAILED — fix errors above\n')
+    process.exit(1)
+  }
+
+  if (CHECK_ONLY && migrated > 0) {
+    console.error('❌ Outdated pages found — run pnpm content:migrate\n')
+    process.exit(1)
+  }
+
+  console.log('✅ Content Migrate done\n')
+  process.exit(0)
+}
+
+main().catch((err: unknown) => {
+  console.error('Fatal error:', err)
+  process.exit(1)
+})
@@ -0,0 +1,139 @@
+/**
+ * preview-link.ts
+ *
+ * Mints a signed, expiring preview link for a protected p/demo page
+ * (pages with an `access:` block, see app/schema/page.access.ts).
+ *
+ * - Signed with NUXT_PREVIEW_SECRET (env or .env), same as the server
+ * - Link lifetime: --days (default 7), capped by access.expiresAt
+ * - Bound to kind/slug: works for every locale of the page
+ *
+ * Run: pnpm preview:link p/offre-dupont
+ *      pnpm preview:link demo/pizza-david --days 30 --locale en
+ * (which calls: npx tsx scripts/preview-link.ts)
+ *
+ * NOTE: No shebang — always run via package.json script for portability.
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { dirname } from 'node:path'
+import { loadEnvFile } from 'node:process'
+import { parse as parseYaml } from 'yaml'
+
+import {
+  ACCESS_KINDS,
+  DEFAULT_LINK_DAYS,
+  PREVIEW_TOKEN_PARAM,
+  PageAccessSchema,
+  isAccessExpired,
+  parseAccessExpiry,
+  signAccessToken
+} from '../app/schema/page.access'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+const ROOT = join(__dirname, '..')
+const CONTENT_DIR = join(ROOT, 'content')
+
+// Same .env as nuxt dev (environment variables win)
+if (existsSync(join(ROOT, '.env'))) {
+  loadEnvFile(join(ROOT, '.env'))
+}
+
+const DEFAULT_LOCALE = process.env.NUXT_PUBLIC_DEFAULT_LOCALE || 'fr'
+const SITE_URL = process.env.NUXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+// =============================================================================
+// ARGUMENTS
+// =============================================================================
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}\n`)
+  console.log('Usage: pnpm preview:link <kind>/<slug> [--days 7] [--locale en]\n')
+  process.exit(1)
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<void> {
+  const target = process.argv.slice(2).find((arg, i, args) => {
+    return !arg.startsWith('--') && !args[i - 1]?.startsWith('--')
+  })
+  const match = target?.match(/^(\w+)\/(.+)$/)
+  if (!match) fail('Missing page: expected <kind>/<slug> (e.g. p/offre-dupont)')
+
+  const kind = match[1]!
+  const slug = match[2]!.replace(/\/$/, '')
+  if (!(ACCESS_KINDS as readonly string[]).includes(kind)) {
+    fail(`Preview links are only for ${ACCESS_KINDS.join('/')} pages (got "${kind}")`)
+  }
+
+  const days = Number(getOption('days') ?? DEFAULT_LINK_DAYS)
+  if (!Number.isFinite(days) || days <= 0) fail('--days must be a positive number')
+
+  const locale = getOption('locale') ?? DEFAULT_LOCALE
+
+  const secret = process.env.NUXT_PREVIEW_SECRET
+  if (!secret) {
+    fail('NUXT_PREVIEW_SECRET is not set (env or .env) — use the same value as the server')
+  }
+
+  // Page file: requested locale, then default locale (like loadPage)
+  const candidates = [locale, DEFAULT_LOCALE].flatMap((l) =>
+    ['yaml', 'yml'].map((ext) => join(CONTENT_DIR, l, 'pages', kind, `${slug}.${ext}`))
+  )
+  const filePath = candidates.find((path) => existsSync(path))
+  if (!filePath) fail(`Page not found: content/${locale}/pages/${kind}/${slug}.yaml`)
+
+  const page = (parseYaml(await readFile(filePath, 'utf-8')) ?? {}) as Record<string, unknown>
+
+  console.log(`🔗 Preview link for ${kind}/${slug} (${relative(ROOT, filePath)})\n`)
+
+  if (page.access === undefined) {
+    console.log('   ⚠️  No access block: the page is public, the link is not required\n')
+  }
+
+  const parsed = PageAccessSchema.safeParse(page.access ?? {})
+  if (!parsed.success) {
+    fail(`Invalid access block: ${parsed.error.issues.map((i) => i.message).join(', ')}`)
+  }
+  const access = parsed.data
+
+  if (isAccessExpired(access)) {
+    fail(`access.expiresAt (${access.expiresAt}) has passed — update it before minting links`)
+  }
+  if (page.access !== undefined && !access.token) {
+    console.log('   ⚠️  access.token is false: links are ignored, visitors need the password\n')
+  }
+
+  // Link lifetime, never beyond access.expiresAt
+  let expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+  const accessEnd = parseAccessExpiry(access)
+  if (accessEnd && accessEnd < expiresAt) {
+    console.log(`   ⏳ Capped by access.expiresAt (${access.expiresAt})\n`)
+    expiresAt = accessEnd
+  }
+
+  const token = await signAccessToken({ kind, slug }, expiresAt, secret)
+  const prefix = locale === DEFAULT_LOCALE ? '' : `/${locale}`
+  const url = `${SITE_URL.replace(/\/$/, '')}${prefix}/${kind}/${slug}?${PREVIEW_TOKEN_PARAM}=${token}`
+
+  console.log(`   ${url}\n`)
+  console.log(`   ⏰ Expires: ${expiresAt.toISOString()}\n`)
+  process.exit(0)
+}
+
+main().catch((err: unknown) => {
+  console.error('Fatal error:', err)
+  process.exit(1)
+})
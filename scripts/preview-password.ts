@@ -0,0 +1,60 @@
+/**
+ * preview-password.ts
+ *
+ * Hashes a password for the `access.passwordHash` of a protected p/demo page
+ * (see app/schema/page.access.ts). Page files never hold the password itself.
+ *
+ * - Salted PBKDF2-SHA256, checked by the server when a visitor types the password
+ * - Password from stdin (keeps it out of the shell history), or as the argument
+ *
+ * Run: pnpm preview:password                  (then type the password, Enter)
+ *      echo -n 'pizza-2026' | pnpm preview:password
+ * (which calls: npx tsx scripts/preview-password.ts)
+ *
+ * NOTE: No shebang — always run via package.json script for portability.
+ */
+
+import { createInterface } from 'node:readline/promises'
+
+import { PASSWORD_MIN_LENGTH, hashAccessPassword } from '../app/schema/page.access'
+
+// =============================================================================
+// INPUT
+// =============================================================================
+
+async function readPassword(): Promise<string> {
+  const argument = process.argv[2]
+  if (argument !== undefined) return argument
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: false })
+  if (process.stdin.isTTY) process.stdout.write('Password: ')
+  const lines: string[] = []
+  for await (const line of rl) {
+    lines.push(line)
+    break
+  }
+  rl.close()
+  return lines[0] ?? ''
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<void> {
+  const password = await readPassword()
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    console.error(`❌ The password must be at least ${PASSWORD_MIN_LENGTH} characters\n`)
+    process.exit(1)
+  }
+
+  console.log('\n🔑 Add to the access block of the page:\n')
+  console.log(`   passwordHash: ${await hashAccessPassword(password)}\n`)
+  process.exit(0)
+}
+
+main().catch((err: unknown) => {
+  console.error('Fatal error:', err)
+  process.exit(1)
+})
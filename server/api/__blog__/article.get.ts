@@ -0,0 +1,35 @@
+import { findBlogArticle, resolveBlogLocale } from '../../utils/blog'
+
+/**
+ * Get one blog article (app/pages/blog/[...slug].vue)
+ *
+ * Query params:
+ * - locale: locale code (e.g. 'fr', 'en', 'fr-CA')
+ * - slug: article slug, can contain / (guides/nuxt/intro)
+ *
+ * Returns: the parsed article (frontmatter + body for ContentRenderer) or 404
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const locale = resolveBlogLocale(event, typeof query.locale === 'string' ? query.locale : '')
+  const slug = query.slug as string | undefined
+
+  // Validate required params
+  if (!locale || !slug) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing required params: locale, slug'
+    })
+  }
+
+  const article = await findBlogArticle(event, locale, slug)
+
+  if (!article) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Article not found: ${slug}`
+    })
+  }
+
+  return article
+})
@@ -0,0 +1,24 @@
+import { listBlogArticles, resolveBlogLocale } from '../../utils/blog'
+
+/**
+ * List the blog articles of a locale (app/pages/blog/index.vue)
+ *
+ * Query params:
+ * - locale: locale code (e.g. 'fr', 'en', 'fr-CA')
+ *
+ * Returns: { articles } — newest first, card fields only (see utils/blog.ts)
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const locale = resolveBlogLocale(event, typeof query.locale === 'string' ? query.locale : '')
+
+  // Validate required params
+  if (!locale) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing or unknown "locale" parameter'
+    })
+  }
+
+  return { articles: await listBlogArticles(event, locale) }
+})
@@ -0,0 +1,65 @@
+import { PageAccessSchema } from '../../../app/schema/page.access'
+import { openPasswordSession } from '../../utils/page-access'
+import { findPageDocument, type PageKind } from '../../utils/page-loader'
+
+/**
+ * Open a protected p/demo page with its password
+ *
+ * Body (JSON):
+ * - kind: 'p' | 'demo'
+ * - slug: string
+ * - locale: string
+ * - password: string
+ *
+ * Returns: { ok: true } and sets the page's access cookie, or:
+ * - 400 if params are missing
+ * - 401 if the password is wrong
+ * - 404 if the page does not exist or has no password
+ * - 410 if access.expiresAt has passed
+ * - 429 (Retry-After) after too many attempts from the IP or on the page
+ *   (10 per IP, 100 per page, per 15 minutes — see utils/page-access.ts)
+ */
+export default defineEventHandler(async (event) => {
+  const body = await readBody<Record<string, unknown>>(event)
+
+  const kind = body?.kind as PageKind | undefined
+  const slug = body?.slug
+  const locale = body?.locale
+  const password = body?.password
+
+  if (
+    !kind ||
+    !['p', 'demo'].includes(kind) ||
+    typeof slug !== 'string' ||
+    !slug ||
+    typeof locale !== 'string' ||
+    !locale ||
+    typeof password !== 'string'
+  ) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing required params: kind (p|demo), slug, locale, password'
+    })
+  }
+
+  const found = await findPageDocument(event, { kind, slug, locale })
+  const access = found ? PageAccessSchema.safeParse(found.doc.access) : null
+
+  if (!access?.success || !access.data.passwordHash) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Page not found: ${kind}/${slug}`
+    })
+  }
+
+  const opened = await openPasswordSession(event, { kind, slug }, access.data, password)
+
+  if (!opened) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Invalid password'
+    })
+  }
+
+  return { ok: true }
+})
@@ -1,4 +1,6 @@
 import { serverQueryContent } from '#content/server'
+import { buildContentPath } from '../../../app/config/localePaths'
+import type { PageKind } from '../../utils/page-loader'
 
 /**
  * Check if a page exists (lightweight lookup)
@@ -10,11 +12,12 @@ import { serverQueryContent } from '#content/server'
  *
  * Returns: { exists: boolean }
  *
- * Used by routes to verify translations before generating hreflang
+ * Drafts do not count (they 404 for visitors)
+ * To check every locale at once, use /api/__page__/locales
  */
 export default defineEventHandler(async (event) => {
   const query = getQuery(event)
-  const kind = query.kind as string
+  const kind = query.kind as PageKind
   const slug = query.slug as string
   const locale = query.locale as string
 
@@ -26,14 +29,15 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  // Build content path
-  const contentPath = `/${locale}/pages/${kind}/${slug}`
+  // Same path rules as loadPage (index.yaml = home)
+  const contentPath = buildContentPath(kind, slug, locale)
 
   // Check if content exists (lightweight query, only returns _path)
   const doc = await serverQueryContent(event)
-    .where({ _path: contentPath })
+    .where({ _path: contentPath, draft: { $ne: true } })
     .only(['_path'])
     .findOne()
 
-  return { exists: doc !== null }
+  // .only() projects a missing document to {} (not null): check the path itself
+  return { exists: Boolean(doc?._path) }
 })
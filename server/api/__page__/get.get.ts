@@ -1,4 +1,6 @@
-import { loadPage, type PageKind } from '../../utils/page-loader'
+import { formatPropIssue, loadPage, type PageKind } from '../../utils/page-loader'
+import { assignExperiments } from '../../utils/experiments'
+import { getPageETag, isNotModified, setPageCacheTiming } from '../../utils/page-cache'
 
 /**
  * Internal API endpoint for page builder
@@ -7,8 +9,19 @@ import { loadPage, type PageKind } from '../../utils/page-loader'
  * - kind: 'site' | 'p' | 'demo'
  * - slug: string (the page path, can contain /)
  * - locale: string (e.g. 'fr', 'en')
+ * - t: signed preview token (optional, protected p/demo pages — see utils/page-access.ts)
  *
- * Returns: PageDef (validated) or 404
+ * Returns: PageDef (validated, section/shell props parsed with defaults, one
+ * variant per A/B experiment for this visitor — see utils/experiments.ts, and the
+ * `contentLocale` served: a fallback locale when the page is not translated, and the
+ * `cacheControl` of visitor-dependent pages for the SSR HTML) or:
+ * - 404 if not found (or protected without a valid link)
+ * - 401 if a password can open the protected page, 410 if the link expired
+ * - 500 if section/shell props are invalid (structured issues in `data.issues`,
+ *   same checks as guard-pages)
+ * - 304 if If-None-Match matches the ETag (hash of the body above)
+ *
+ * Server-Timing reports the page cache result (hit/miss) and hit/miss counts.
  */
 export default defineEventHandler(async (event) => {
   const query = getQuery(event)
@@ -17,6 +30,7 @@ export default defineEventHandler(async (event) => {
   const kind = query.kind as PageKind | undefined
   const slug = query.slug as string | undefined
   const locale = query.locale as string | undefined
+  const token = typeof query.t === 'string' ? query.t : undefined
 
   if (!kind || !['site', 'p', 'demo'].includes(kind)) {
     throw createError({
@@ -40,14 +54,44 @@ export default defineEventHandler(async (event) => {
   }
 
   // Load page via canonical loader
-  const page = await loadPage(event, { kind, slug, locale })
+  const loaded = await loadPage(event, { kind, slug, locale, token })
+  setPageCacheTiming(event)
 
-  if (!page) {
+  if (!loaded) {
     throw createError({
       statusCode: 404,
       statusMessage: `Page not found: ${kind}/${slug}`
     })
   }
 
+  if (loaded.issues.length > 0) {
+    const isDev = process.env.NODE_ENV !== 'production'
+    throw createError({
+      statusCode: 500,
+      statusMessage: isDev
+        ? `Invalid page props: ${loaded.issues.map(formatPropIssue).join(', ')}`
+        : 'Invalid page configuration',
+      data: { issues: loaded.issues }
+    })
+  }
+
+  const page = assignExperiments(event, {
+    ...loaded.page,
+    contentLocale: loaded.contentLocale,
+    ...(loaded.cacheControl && { cacheControl: loaded.cacheControl })
+  })
+
+  // Revalidate every time (drafts / protected pages are already private, no-store)
+  const etag = getPageETag(page)
+  setHeader(event, 'ETag', etag)
+  if (!getResponseHeader(event, 'Cache-Control')) {
+    setHeader(event, 'Cache-Control', 'no-cache')
+  }
+
+  if (isNotModified(event, etag)) {
+    setResponseStatus(event, 304)
+    return null
+  }
+
   return page
 })
@@ -0,0 +1,43 @@
+import {
+  checkIfMatch,
+  deletePageFile,
+  getPageFileTarget,
+  readPageFile,
+  requirePageWriteAccess,
+  withPageFileLock
+} from '../../utils/page-write'
+
+/**
+ * Page write API — delete a page file
+ *
+ * Auth: `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>` (404 when not configured)
+ *
+ * Query params: kind, slug, locale
+ * Headers: If-Match: "<hash>" (from GET, POST or PUT)
+ *
+ * Returns { path, deleted: true }, or:
+ * - 404 if the file does not exist
+ * - 428 without If-Match, 412 if the file changed since (data: { hash })
+ *
+ * Keep the old URL alive with `aliases` on another page or content/redirects.yaml.
+ */
+export default defineEventHandler(async (event) => {
+  requirePageWriteAccess(event)
+  const target = getPageFileTarget(event)
+  const { filePath } = await readPageFile(target)
+
+  return withPageFileLock(filePath, async () => {
+    const file = await readPageFile(target)
+    if (file.content === null) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: `Page file not found: ${file.path}`
+      })
+    }
+
+    checkIfMatch(event, file)
+    await deletePageFile(file.filePath)
+
+    return { path: file.path, deleted: true }
+  })
+})
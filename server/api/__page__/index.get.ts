@@ -0,0 +1,32 @@
+import {
+  getPageFileTarget,
+  parsePageFile,
+  readPageFile,
+  requirePageWriteAccess
+} from '../../utils/page-write'
+
+/**
+ * Page write API — read a page file as written (before kits/partials)
+ *
+ * Auth: `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>` (404 when not configured)
+ *
+ * Query params: kind, slug, locale
+ *
+ * Returns: { path, hash, page } + ETag: "<hash>" — send the hash back as
+ * If-Match on PUT/DELETE (404 if the file does not exist)
+ */
+export default defineEventHandler(async (event) => {
+  requirePageWriteAccess(event)
+  const target = getPageFileTarget(event)
+
+  const file = await readPageFile(target)
+  if (file.content === null) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Page file not found: ${file.path}`
+    })
+  }
+
+  setHeader(event, 'ETag', `"${file.hash}"`)
+  return { path: file.path, hash: file.hash, page: parsePageFile(file) }
+})
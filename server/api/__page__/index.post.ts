@@ -0,0 +1,50 @@
+import {
+  getContentHash,
+  getPageFileTarget,
+  readPageFile,
+  requirePageWriteAccess,
+  stringifyPage,
+  validatePageCandidate,
+  withPageFileLock,
+  writePageFile
+} from '../../utils/page-write'
+
+/**
+ * Page write API — create a page file
+ *
+ * Auth: `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>` (404 when not configured)
+ *
+ * Query params: kind, slug, locale → content/<locale>/pages/<kind>/<slug>.yaml
+ * Body: page definition as written in YAML (kit/vars and $ref allowed)
+ *
+ * Returns 201 { path, hash, warnings } + ETag, or:
+ * - 422 if the page fails the guard-pages checks (data: { issues })
+ * - 409 if the file already exists (use PUT)
+ */
+export default defineEventHandler(async (event) => {
+  requirePageWriteAccess(event)
+  const target = getPageFileTarget(event)
+  const body = await readBody(event)
+
+  const { warnings } = await validatePageCandidate(event, target, body)
+  const content = stringifyPage(body)
+  const { filePath } = await readPageFile(target)
+
+  return withPageFileLock(filePath, async () => {
+    const file = await readPageFile(target)
+    if (file.content !== null) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: `Page file already exists: ${file.path} (use PUT)`,
+        data: { hash: file.hash }
+      })
+    }
+
+    await writePageFile(file.filePath, content)
+
+    const hash = getContentHash(content)
+    setResponseStatus(event, 201)
+    setHeader(event, 'ETag', `"${hash}"`)
+    return { path: file.path, hash, warnings }
+  })
+})
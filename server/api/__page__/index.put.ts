@@ -0,0 +1,55 @@
+import {
+  checkIfMatch,
+  getContentHash,
+  getPageFileTarget,
+  readPageFile,
+  requirePageWriteAccess,
+  stringifyPage,
+  validatePageCandidate,
+  withPageFileLock,
+  writePageFile
+} from '../../utils/page-write'
+
+/**
+ * Page write API — replace a page file
+ *
+ * Auth: `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>` (404 when not configured)
+ *
+ * Query params: kind, slug, locale
+ * Headers: If-Match: "<hash>" (from GET, POST or a previous PUT)
+ * Body: page definition as written in YAML (kit/vars and $ref allowed)
+ *
+ * Returns { path, hash, warnings } + ETag, or:
+ * - 422 if the page fails the guard-pages checks (data: { issues })
+ * - 404 if the file does not exist (use POST)
+ * - 428 without If-Match, 412 if the file changed since (data: { hash })
+ */
+export default defineEventHandler(async (event) => {
+  requirePageWriteAccess(event)
+  const target = getPageFileTarget(event)
+  const body = await readBody(event)
+
+  const { warnings } = await validatePageCandidate(event, target, body)
+  const content = stringifyPage(body)
+  const { filePath } = await readPageFile(target)
+
+  return withPageFileLock(filePath, async () => {
+    const file = await readPageFile(target)
+    if (file.content === null) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: `Page file not found: ${file.path} (use POST)`
+      })
+    }
+
+    checkIfMatch(event, file)
+
+    const hash = getContentHash(content)
+    if (hash !== file.hash) {
+      await writePageFile(file.filePath, content)
+    }
+
+    setHeader(event, 'ETag', `"${hash}"`)
+    return { path: file.path, hash, warnings }
+  })
+})
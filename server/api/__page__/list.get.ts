@@ -0,0 +1,90 @@
+import { getRuntimeI18n, type PageKind } from '../../utils/page-loader'
+import { requirePageWriteAccess } from '../../utils/page-write'
+import {
+  PAGE_LIST_DEFAULT_LIMIT,
+  PAGE_LIST_MAX_LIMIT,
+  decodePageListCursor,
+  listPages
+} from '../../utils/page-list'
+
+/**
+ * List page builder pages (summaries, no props payload) — for automation
+ *
+ * Query params (all optional, combined):
+ * - kind: 'site' | 'p' | 'demo'
+ * - locale: locale code (e.g. 'fr', 'en')
+ * - pack: pack used by the page or a section
+ * - section: section id used (e.g. 'hero.split', variants included)
+ * - shell: shell component id (e.g. 'header.default')
+ * - draft: 'true' | 'false'
+ * - q: case-insensitive search in seo.title
+ * - cursor: `nextCursor` of the previous response
+ * - limit: items per response (default 50, max 200)
+ *
+ * Returns: { items: PageSummary[], total, nextCursor } sorted by content path
+ * (see utils/page-list.ts for the summary fields; total is null with pack, section,
+ * shell or q, and a response may then hold fewer than `limit` items before the end)
+ *
+ * Requires `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>`, like the write API:
+ * the list reveals p/demo pages, protected pages and drafts (404 when no token
+ * is configured, 401 without it).
+ */
+export default defineEventHandler(async (event) => {
+  requirePageWriteAccess(event)
+
+  const query = getQuery(event)
+
+  const kind = query.kind as PageKind | undefined
+  if (kind !== undefined && !['site', 'p', 'demo'].includes(kind)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid "kind" parameter'
+    })
+  }
+
+  const draft = query.draft as string | undefined
+  if (draft !== undefined && draft !== 'true' && draft !== 'false') {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid "draft" parameter (expected true or false)'
+    })
+  }
+
+  const limit = query.limit === undefined ? PAGE_LIST_DEFAULT_LIMIT : Number(query.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > PAGE_LIST_MAX_LIMIT) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Invalid "limit" parameter (1-${PAGE_LIST_MAX_LIMIT})`
+    })
+  }
+
+  let cursor: string | undefined
+  if (typeof query.cursor === 'string' && query.cursor) {
+    cursor = decodePageListCursor(query.cursor, getRuntimeI18n(event).locales) ?? undefined
+    if (!cursor) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid "cursor" parameter'
+      })
+    }
+  }
+
+  const text = (name: string) => {
+    const value = query[name]
+    return typeof value === 'string' && value ? value : undefined
+  }
+
+  return listPages(
+    event,
+    {
+      kind,
+      locale: text('locale'),
+      pack: text('pack'),
+      section: text('section'),
+      shell: text('shell'),
+      draft: draft === undefined ? undefined : draft === 'true',
+      q: text('q')
+    },
+    { cursor, limit }
+  )
+})
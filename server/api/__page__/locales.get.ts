@@ -0,0 +1,29 @@
+import { findPageLocales, type PageKind } from '../../utils/page-loader'
+
+/**
+ * List the locales a page is translated in (one content query for all locales)
+ *
+ * Query params:
+ * - kind: 'site' | 'p' | 'demo'
+ * - slug: page slug ('index' = home page)
+ *
+ * Returns: { locales: string[] } (runtimeConfig order)
+ *
+ * Used by usePageAlternates to build hreflang for existing translations only.
+ * Drafts and pages outside their publishing window do not count.
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const kind = query.kind as PageKind | undefined
+  const slug = query.slug as string | undefined
+
+  // Validate required params
+  if (!kind || !['site', 'p', 'demo'].includes(kind) || !slug) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing required params: kind, slug'
+    })
+  }
+
+  return { locales: await findPageLocales(event, kind, slug) }
+})
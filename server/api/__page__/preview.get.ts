@@ -0,0 +1,27 @@
+import { assignExperiments } from '../../utils/experiments'
+import { getPagePreview } from '../../utils/page-preview'
+
+/**
+ * Page definition of a render preview (see preview.post.ts)
+ *
+ * Query params:
+ * - id: preview id (unguessable, the link is the access)
+ *
+ * Returns: PageDef (props parsed, seo.noindex forced, one variant per A/B
+ * experiment) or 404 if the preview is unknown or expired
+ */
+export default defineEventHandler(async (event) => {
+  const id = getQuery(event).id
+
+  const page = typeof id === 'string' && id ? await getPagePreview(id) : null
+  if (!page) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Preview not found or expired'
+    })
+  }
+
+  setHeader(event, 'Cache-Control', 'private, no-store')
+  setHeader(event, 'X-Robots-Tag', 'noindex, nofollow')
+  return assignExperiments(event, page)
+})
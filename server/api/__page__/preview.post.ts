@@ -0,0 +1,37 @@
+import { getPageFileTarget, validatePageCandidate } from '../../utils/page-write'
+import { createPagePreview, requirePagePreviewAccess } from '../../utils/page-preview'
+
+/**
+ * Render preview of an unsaved page — nothing is written to content/
+ *
+ * Auth: open in dev; in production `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>`
+ * (404 when not configured)
+ *
+ * Query params:
+ * - kind, slug, locale: the file the page would be written to (kind rules, partials locale)
+ * - format: 'html' to get the SSR HTML instead of the preview link
+ * Body: page definition as written in YAML (kit/vars and $ref allowed)
+ *
+ * Returns 201 { id, path, expiresAt, warnings } — `path` renders the page with the
+ * real sections, shells and theme for 30 minutes (shareable, always noindex) — or
+ * the HTML of that page with format=html. 422 if the page fails the guard-pages
+ * checks (data: { issues }).
+ */
+export default defineEventHandler(async (event) => {
+  requirePagePreviewAccess(event)
+  const target = getPageFileTarget(event)
+  const body = await readBody(event)
+
+  const { warnings } = await validatePageCandidate(event, target, body)
+  const preview = await createPagePreview(event, target, body)
+
+  if (getQuery(event).format === 'html') {
+    const html = await $fetch<string>(preview.path, { responseType: 'text' })
+    setHeader(event, 'Content-Type', 'text/html; charset=utf-8')
+    setHeader(event, 'X-Robots-Tag', 'noindex, nofollow')
+    return html
+  }
+
+  setResponseStatus(event, 201)
+  return { ...preview, warnings }
+})
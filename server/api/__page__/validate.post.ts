@@ -0,0 +1,29 @@
+import { getPageFileTarget, runPageValidation } from '../../utils/page-write'
+
+/**
+ * Dry-run page validation — same per-page checks as pnpm guard:pages, nothing written
+ *
+ * Query params: kind, slug, locale (the file the page would be written to)
+ * Body: page definition as written in YAML (kit/vars and $ref allowed)
+ *
+ * Returns 200 { valid, issues, kit, partials } — valid is false when an issue has
+ * severity 'error'. Each issue: { severity, pointer, message, hint }, the pointer
+ * locating it in the page after kit expansion and $ref resolution
+ * (see app/schema/page.validate.ts).
+ *
+ * Cross-page checks (i18n coverage, redirect chains/collisions) stay in guard-pages.
+ */
+export default defineEventHandler(async (event) => {
+  const target = getPageFileTarget(event)
+  const body = await readBody(event)
+
+  const result = await runPageValidation(event, target, body)
+
+  setHeader(event, 'Cache-Control', 'no-store')
+  return {
+    valid: result.errors.length === 0,
+    issues: result.issues,
+    kit: result.kit,
+    partials: result.partials
+  }
+})
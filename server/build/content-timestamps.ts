@@ -0,0 +1,180 @@
+/**
+ * content-timestamps.ts
+ *
+ * BUILD TIME — Last modification date of every content file
+ *
+ * Computed once when Nitro is configured (nuxt.config.ts hook) and bundled as the
+ * `#content-timestamps` virtual module: the deployed server has neither the git
+ * history nor the real file times (content sources are copied into the bundle).
+ *
+ * Date of a file:
+ * - last commit touching it (git log, one call for the whole content directory)
+ * - file mtime when it has uncommitted changes, is untracked, or git is unavailable
+ * - none in a shallow clone when its last commit is out of the fetched history
+ *   (the boundary commit would date every such file the same): build with the full
+ *   history (`git fetch --unshallow`, see docs/kits/README.md), a warning says how
+ *   many files lack a date
+ *
+ * Used by:
+ * - nuxt.config.ts (nitro:config hook → #content-timestamps)
+ * - server/utils/content-timestamps.ts (runtime lookup)
+ *
+ * ⚠️  NO NUXT DEPENDENCIES — Node.js only (runs in the build process)
+ */
+
+import { execFileSync } from 'node:child_process'
+import { readFileSync, readdirSync, statSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Content file extensions (Nuxt Content sources) */
+const CONTENT_EXTENSIONS = /\.(md|yaml|yml|json|csv)$/
+
+/**
+ * Run git in the content directory
+ *
+ * @returns stdout, or null outside a git checkout / without git
+ */
+function git(cwd: string, args: string[]): string | null {
+  try {
+    // quotepath off: non-ASCII file names printed as-is
+    return execFileSync('git', ['-c', 'core.quotepath=off', ...args], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      maxBuffer: 64 * 1024 * 1024
+    })
+  } catch {
+    return null
+  }
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return listFiles(path)
+    return entry.isFile() && CONTENT_EXTENSIONS.test(entry.name) ? [path] : []
+  })
+}
+
+/**
+ * Content path from a file path relative to the content directory (forward slashes),
+ * same as the document _path (lowercased, index files are their directory):
+ * fr/pages/site/about.yaml → /fr/pages/site/about, fr-CA/pages/site/index.yaml → /fr-ca/pages/site
+ */
+function toContentPath(file: string): string {
+  return `/${file.replace(CONTENT_EXTENSIONS, '').toLowerCase()}`.replace(/\/index$/, '') || '/'
+}
+
+/**
+ * Boundary commits of a shallow clone (CI and Vercel clone a few commits only)
+ * Their parents are missing, so git log lists every file as changed by them.
+ *
+ * @returns Boundary commit hashes, or null in a complete clone (or without git)
+ */
+function getShallowBoundaries(contentDir: string): Set<string> | null {
+  if (git(contentDir, ['rev-parse', '--is-shallow-repository'])?.trim() !== 'true') return null
+
+  const gitDir = git(contentDir, ['rev-parse', '--absolute-git-dir'])?.trim()
+  try {
+    return new Set(readFileSync(join(gitDir!, 'shallow'), 'utf-8').split('\n').filter(Boolean))
+  } catch {
+    return new Set()
+  }
+}
+
+/**
+ * Last commit date (ISO 8601) of every file committed in the directory
+ * (paths relative to it, newest commit first: the first date seen wins)
+ *
+ * Files whose last commit is a shallow boundary are `unknown` (no date).
+ */
+function getCommitDates(
+  contentDir: string,
+  boundaries: Set<string> | null
+): { dates: Map<string, string>; unknown: Set<string> } {
+  const dates = new Map<string, string>()
+  const unknown = new Set<string>()
+  const log = git(contentDir, [
+    'log',
+    '--format=%x00%H %cI',
+    '--name-only',
+    '--relative',
+    '--',
+    '.'
+  ])
+  if (!log) return { dates, unknown }
+
+  for (const commit of log.split('\0').filter(Boolean)) {
+    const [header, ...files] = commit.split('\n').map((line) => line.trim())
+    const [hash, date] = header!.split(' ')
+    const isBoundary = boundaries?.has(hash!) ?? false
+    for (const file of files.filter(Boolean)) {
+      if (dates.has(file) || unknown.has(file)) continue
+      if (isBoundary) unknown.add(file)
+      else dates.set(file, date!)
+    }
+  }
+  return { dates, unknown }
+}
+
+/**
+ * Files whose working copy differs from the last commit (modified or untracked)
+ */
+function getDirtyFiles(contentDir: string): Set<string> {
+  const modified = git(contentDir, ['diff', '--name-only', '--relative', 'HEAD', '--', '.'])
+  const untracked = git(contentDir, ['ls-files', '--others', '--exclude-standard', '--', '.'])
+  return new Set(
+    [modified, untracked].flatMap((output) => (output ?? '').split('\n')).filter(Boolean)
+  )
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * Last modification date of every content file
+ *
+ * @param contentDir - Nuxt Content source directory (e.g. <rootDir>/content)
+ * @returns Content path (e.g. /fr/pages/site/about) → ISO 8601 date
+ */
+export function getContentTimestamps(contentDir: string): Record<string, string> {
+  let files: string[]
+  try {
+    files = listFiles(contentDir)
+  } catch {
+    return {}
+  }
+
+  const commits = getCommitDates(contentDir, getShallowBoundaries(contentDir))
+  const dirtyFiles = getDirtyFiles(contentDir)
+  const timestamps: Record<string, string> = {}
+  let undated = 0
+
+  for (const path of files) {
+    // git prints paths with forward slashes
+    const file = relative(contentDir, path).split(sep).join('/')
+    if (dirtyFiles.has(file)) {
+      timestamps[toContentPath(file)] = statSync(path).mtime.toISOString()
+    } else if (commits.unknown.has(file)) {
+      undated++
+    } else {
+      const committed = commits.dates.get(file)
+      timestamps[toContentPath(file)] = committed
+        ? new Date(committed).toISOString()
+        : statSync(path).mtime.toISOString()
+    }
+  }
+
+  if (undated > 0) {
+    console.warn(
+      `[content-timestamps] Shallow git clone: ${undated} content file(s) without a last commit date (no sitemap lastmod). Build with the full history: git fetch --unshallow`
+    )
+  }
+
+  return timestamps
+}
@@ -0,0 +1,8 @@
+/**
+ * #content-timestamps — virtual module generated at build time (nuxt.config.ts hook)
+ * Content path (e.g. /fr/pages/site/about) → ISO 8601 date, see content-timestamps.ts
+ */
+declare module '#content-timestamps' {
+  const timestamps: Record<string, string>
+  export default timestamps
+}
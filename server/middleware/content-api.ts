@@ -0,0 +1,36 @@
+/**
+ * Server middleware closing the public Nuxt Content API (/api/_content/*)
+ *
+ * @nuxt/content serves every document through /api/_content/query (any `where`,
+ * `_draft` included), cache.<hash>.json, navigation and search. That exposes raw
+ * page YAML — drafts, p/demo pages and their `access:` block, partials, kits —
+ * and bypasses loadPage (drafts, publishing window, preview access).
+ *
+ * Nothing in the app queries content from the browser: pages go through
+ * /api/__page__/*, the blog through /api/__blog__/*, both built on
+ * serverQueryContent (which does not use HTTP). So the whole prefix answers 404.
+ *
+ * The prefix is runtimeConfig.content.api.baseURL (default /api/_content),
+ * matched case-insensitively after decoding (repeated slashes collapsed).
+ *
+ * Open while prerendering only: the build requests cache.<hash>.json to warm the
+ * bundled content cache (the file itself is not written out, see nuxt.config).
+ */
+export default defineEventHandler((event) => {
+  if (import.meta.prerender) return
+
+  const config = useRuntimeConfig(event) as { content?: { api?: { baseURL?: string } } }
+  const baseURL = (config.content?.api?.baseURL || '/api/_content').toLowerCase()
+
+  let path = event.path.split('?')[0]!
+  try {
+    path = decodeURIComponent(path)
+  } catch {
+    // Malformed escapes: match the raw path
+  }
+  path = path.replace(/\/{2,}/g, '/').toLowerCase()
+
+  if (path === baseURL || path.startsWith(`${baseURL}/`)) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+})
@@ -0,0 +1,29 @@
+import { DRAFT_PREVIEW_PARAM } from '../../app/schema/page.access'
+import { closeDraftPreview, openDraftPreview } from '../utils/page-access'
+
+/**
+ * Server middleware for draft preview (pages with `draft: true`)
+ *
+ * - ?preview=<NUXT_PREVIEW_SECRET> → opens a preview session (iw_preview cookie, 1 day)
+ * - ?preview=off → closes it
+ *
+ * Then redirects to the same URL without the parameter, so the secret never
+ * stays in the address bar, history or Referer. A wrong secret is ignored.
+ * See server/utils/page-access.ts.
+ */
+export default defineEventHandler(async (event) => {
+  if (event.method !== 'GET' || event.path.startsWith('/api/')) return
+
+  const value = getQuery(event)[DRAFT_PREVIEW_PARAM]
+  if (typeof value !== 'string' || !value) return
+
+  if (value === 'off') {
+    closeDraftPreview(event)
+  } else if (!(await openDraftPreview(event, value))) {
+    return
+  }
+
+  const url = getRequestURL(event)
+  url.searchParams.delete(DRAFT_PREVIEW_PARAM)
+  return sendRedirect(event, `${url.pathname}${url.search}`, 302)
+})
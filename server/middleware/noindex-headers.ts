@@ -1,3 +1,8 @@
+import { splitLocalePath } from '../../app/config/localePaths'
+import { getRuntimeI18n } from '../utils/page-loader'
+
+const NOINDEX_PREFIXES = ['/p/', '/demo/', '/dev/', '/__preview/']
+
 /**
  * Server middleware to add X-Robots-Tag header for noindex routes
  *
@@ -8,24 +13,27 @@
  * - /p/* (private preview pages)
  * - /demo/* (demo/showcase pages)
  * - /dev/* (development pages)
- * - /:locale/p/* (localized)
- * - /:locale/demo/*
- * - /:locale/dev/*
+ * - /__preview/* (render previews of unsaved pages)
+ * - /:locale/p/*, /:locale/demo/*, /:locale/dev/*, /:locale/__preview/* for every
+ *   locale of runtimeConfig.public.locales (region locales too, e.g. /fr-CA/p/*)
+ *
+ * Matched case-insensitively, like the routes themselves.
+ *
+ * Also sets Referrer-Policy: same-origin so signed preview links (?t=, see
+ * server/utils/page-access.ts) never leak to external sites through Referer.
  */
 export default defineEventHandler((event) => {
-  const path = event.path
+  const i18n = getRuntimeI18n(event)
+  const { path } = splitLocalePath(event.path, i18n.locales, i18n.defaultLocale)
+  const lowerPath = path.toLowerCase()
 
-  // Check if path matches noindex routes
-  const isNoindexRoute =
-    path.startsWith('/p/') ||
-    path.startsWith('/demo/') ||
-    path.startsWith('/dev/') ||
-    // Localized versions (e.g., /en/p/, /fr/demo/)
-    /^\/[a-z]{2}\/(p|demo|dev)\//.test(path)
+  // Check if path matches noindex routes (locale prefix removed)
+  const isNoindexRoute = NOINDEX_PREFIXES.some((prefix) => lowerPath.startsWith(prefix))
 
   if (isNoindexRoute) {
     // Set X-Robots-Tag header
     // This is an additional protection layer on top of meta robots
     setHeader(event, 'X-Robots-Tag', 'noindex, nofollow')
+    setHeader(event, 'Referrer-Policy', 'same-origin')
   }
 })
@@ -0,0 +1,36 @@
+import { findRedirect } from '../utils/redirects'
+
+/**
+ * Server middleware for managed redirects (runs before the page loader)
+ *
+ * Sources (see app/config/redirects.ts):
+ * - `aliases:` on page YAML → 301 to the page, per locale
+ * - content/redirects.yaml → 301/302, per locale unless `locale` is set
+ *
+ * Skipped:
+ * - non GET/HEAD requests
+ * - /api/*, Nuxt internals (/_nuxt/*, /__nuxt*), files with an extension
+ *
+ * The query string is kept; chains are flattened to a single hop.
+ */
+export default defineEventHandler(async (event) => {
+  if (event.method !== 'GET' && event.method !== 'HEAD') return
+
+  const [pathname = '/', search] = event.path.split('?')
+
+  if (
+    pathname.startsWith('/api/') ||
+    pathname.startsWith('/_nuxt/') ||
+    pathname.startsWith('/__nuxt') ||
+    /\.[a-z0-9]+$/i.test(pathname)
+  ) {
+    return
+  }
+
+  const redirect = await findRedirect(event, pathname)
+  if (!redirect) return
+
+  const separator = redirect.to.includes('?') ? '&' : '?'
+  const location = search ? `${redirect.to}${separator}${search}` : redirect.to
+  return sendRedirect(event, location, redirect.status)
+})
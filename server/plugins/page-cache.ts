@@ -0,0 +1,18 @@
+import { clearPageCache } from '../utils/page-cache'
+
+/**
+ * Dev only: drop the page cache when content changes
+ *
+ * Any content file can feed a page (kits, partials, fallback locale), so the whole
+ * cache is cleared. In production content is built in: the cache lives as long as
+ * the process.
+ */
+export default defineNitroPlugin(() => {
+  if (!import.meta.dev) return
+
+  void useStorage().watch((_event, key) => {
+    if (key.startsWith('content:source:')) {
+      clearPageCache()
+    }
+  })
+})
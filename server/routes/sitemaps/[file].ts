@@ -0,0 +1,28 @@
+import {
+  getSitemapEntries,
+  getSitemapOptions,
+  getSitemapPlan,
+  renderUrlset
+} from '../../utils/sitemap'
+
+/**
+ * /sitemaps/<name>.xml — one page of the sitemap index (e.g. site-1.xml, en-blog-2.xml)
+ * Same entries and cache as /sitemap.xml
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'file')?.match(/^([a-z0-9-]+)\.xml$/)?.[1]
+
+  const entries = await getSitemapEntries(event)
+  const child = name
+    ? getSitemapPlan(entries, getSitemapOptions(event)).children.find((c) => c.name === name)
+    : undefined
+
+  if (!child) {
+    throw createError({ statusCode: 404, statusMessage: 'Sitemap not found' })
+  }
+
+  // Same cache strategy as /sitemap.xml
+  setHeader(event, 'Content-Type', 'application/xml; charset=utf-8')
+  setHeader(event, 'Cache-Control', 'public, max-age=0, s-maxage=600, stale-while-revalidate=86400')
+  return renderUrlset(child.entries)
+})
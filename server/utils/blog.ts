@@ -0,0 +1,92 @@
+import { serverQueryContent } from '#content/server'
+import type { ParsedContent } from '@nuxt/content'
+import type { H3Event } from 'h3'
+
+import { matchLocale, toContentLocale } from '../../app/config/localePaths'
+import { PRIVATE_PAGE_CACHE_CONTROL } from '../../app/schema/page.access'
+import { hasDraftPreview } from './page-access'
+import { getRuntimeI18n } from './page-loader'
+
+/**
+ * Blog articles (content/<locale>/blog/**.md), served by /api/__blog__/*
+ *
+ * The blog pages used to query Nuxt Content from the browser, which required the
+ * public /api/_content/* API (see server/middleware/content-api.ts): they go through
+ * these server-side queries instead.
+ *
+ * Drafts (`draft: true`) follow the page rules: only visitors in draft preview
+ * (?preview=<NUXT_PREVIEW_SECRET>, see utils/page-access.ts) see them, in dev too.
+ * The `_draft` filter is always set here, never taken from the request.
+ */
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+/** Frontmatter fields of an article card (blog index) */
+export const BLOG_LIST_FIELDS = [
+  '_path',
+  'title',
+  'description',
+  'date',
+  'category',
+  'tags',
+  'cover',
+  'draft'
+]
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Resolve a requested locale to its configured code (null if not configured)
+ */
+export function resolveBlogLocale(event: H3Event, locale: string): string | null {
+  return matchLocale(locale, getRuntimeI18n(event).locales)
+}
+
+/**
+ * Draft filter for the visitor: drafts included in draft preview only
+ * Mentioning `_draft` turns off Nuxt Content's own production-only filter.
+ * Draft responses are private (never cached by a CDN).
+ */
+async function getDraftFilter(event: H3Event) {
+  if (await hasDraftPreview(event)) {
+    setHeader(event, 'Cache-Control', PRIVATE_PAGE_CACHE_CONTROL)
+    return { _draft: { $in: [true, false] } }
+  }
+  return { _draft: { $ne: true } }
+}
+
+/**
+ * List the articles of a locale, newest first (card fields only, no body)
+ */
+export async function listBlogArticles(
+  event: H3Event,
+  locale: string
+): Promise<Pick<ParsedContent, string>[]> {
+  return serverQueryContent(event, toContentLocale(locale), 'blog')
+    .where(await getDraftFilter(event))
+    .only(BLOG_LIST_FIELDS)
+    .sort({ date: -1 })
+    .find()
+}
+
+/**
+ * Find one article by slug (nested slugs included), body included for ContentRenderer
+ */
+export async function findBlogArticle(
+  event: H3Event,
+  locale: string,
+  slug: string
+): Promise<ParsedContent | null> {
+  const article = await serverQueryContent(event)
+    .where({
+      _path: `/${toContentLocale(locale)}/blog/${slug.toLowerCase()}`,
+      ...(await getDraftFilter(event))
+    })
+    .findOne()
+
+  return article ?? null
+}
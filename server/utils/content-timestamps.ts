@@ -0,0 +1,24 @@
+/// <reference path="../build/virtual.d.ts" />
+import contentTimestamps from '#content-timestamps'
+import { parsePublishDate } from '../../app/schema/page.schedule'
+
+// =============================================================================
+// LAST MODIFICATION
+// =============================================================================
+
+/**
+ * Last modification date of a content document
+ *
+ * - `updatedAt` declared in the document when it is a valid ISO 8601 date
+ *   (invalid values are reported by guard-pages)
+ * - otherwise the last git commit of its file, or its mtime (computed at build
+ *   time, see server/build/content-timestamps.ts)
+ *
+ * @param contentPath - Document _path (e.g. /fr/pages/site/about)
+ * @param updatedAt - Date declared in the document
+ * @returns ISO 8601 date, undefined if unknown (file added after the build)
+ */
+export function getContentUpdatedAt(contentPath: string, updatedAt?: unknown): string | undefined {
+  if (typeof updatedAt === 'string' && parsePublishDate(updatedAt)) return updatedAt
+  return contentTimestamps[contentPath]
+}
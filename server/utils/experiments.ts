@@ -0,0 +1,79 @@
+import type { H3Event } from 'h3'
+
+// Section A/B experiments (script-safe, shared with page-loader and guard-pages)
+import {
+  EXPERIMENT_CACHE_CONTROL,
+  EXPERIMENT_COOKIE_MAX_AGE,
+  EXPERIMENT_VARY,
+  getExperimentCookieName,
+  isServableVariant,
+  pickVariant,
+  resolveSectionVariant
+} from '../../app/schema/page.experiments'
+import { validateSectionProps } from '../../app/sections/sections.manifest'
+import type { PageDef, SectionDef } from './page-loader'
+
+// =============================================================================
+// EXPERIMENT ASSIGNMENT (per request, after loadPage)
+// =============================================================================
+
+/**
+ * Pick one variant per experiment for the current visitor
+ *
+ * - Sticky: reuses the `iw_exp_<experiment>` cookie when it names a servable variant
+ * - Otherwise picks by weight and sets the cookie (90 days)
+ * - Sections sharing an experiment key get the same variant
+ * - Returns the page with `variants` resolved, `section.variant` set and
+ *   `page.experiments` (experiment → variant) exposed for analytics
+ * - Marks the response private (content depends on the visitor's cookies) and
+ *   returns that policy in `page.cacheControl` for the SSR HTML; a stricter one
+ *   already set by loadPage (draft preview, protected page) is kept
+ *
+ * Expects a page from loadPage (every variant's props already validated).
+ *
+ * @param event - H3 event (cookies in, Set-Cookie out)
+ * @param page - Validated page
+ * @returns Page with one variant per experiment section
+ */
+export function assignExperiments(event: H3Event, page: PageDef): PageDef {
+  if (!page.sections.some((section) => section.variants)) {
+    return page
+  }
+
+  const assignments: Record<string, string> = {}
+
+  const sections = page.sections.map((section): SectionDef => {
+    if (!section.variants || !section.experiment) return section
+
+    const experiment = section.experiment
+    const cookieName = getExperimentCookieName(experiment)
+
+    let key = assignments[experiment]
+    if (!isServableVariant(section, key)) {
+      const fromCookie = getCookie(event, cookieName)
+      key = isServableVariant(section, fromCookie) ? fromCookie : pickVariant(section.variants)
+    }
+
+    if (getCookie(event, cookieName) !== key) {
+      setCookie(event, cookieName, key, {
+        maxAge: EXPERIMENT_COOKIE_MAX_AGE,
+        path: '/',
+        sameSite: 'lax'
+      })
+    }
+    assignments[experiment] = key
+
+    // Parse the served variant's props (defaults applied, already validated by loadPage)
+    const resolved = resolveSectionVariant(section, key)
+    const result = validateSectionProps(resolved.id, resolved.props)
+    return result.success
+      ? { ...resolved, props: result.data as Record<string, unknown> }
+      : resolved
+  })
+
+  const cacheControl = page.cacheControl ?? EXPERIMENT_CACHE_CONTROL
+  setHeader(event, 'Cache-Control', cacheControl)
+  setHeader(event, 'Vary', EXPERIMENT_VARY)
+
+  return { ...page, sections, experiments: assignments, cacheControl }
+}
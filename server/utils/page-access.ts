@@ -0,0 +1,323 @@
+import type { H3Event } from 'h3'
+
+// Preview access (script-safe, shared with scripts/preview-link.ts)
+import {
+  DRAFT_PREVIEW_COOKIE,
+  DRAFT_PREVIEW_MAX_AGE,
+  DRAFT_PREVIEW_TARGET,
+  PASSWORD_SESSION_MAX_AGE,
+  PRIVATE_PAGE_CACHE_CONTROL,
+  getAccessCookieName,
+  isAccessExpired,
+  parseAccessExpiry,
+  safeEqual,
+  signAccessToken,
+  verifyAccessPassword,
+  verifyAccessToken,
+  type AccessTarget,
+  type PageAccess
+} from '../../app/schema/page.access'
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Secret used to sign preview tokens (NUXT_PREVIEW_SECRET, server-only)
+ */
+function getPreviewSecret(event: H3Event): string {
+  const config = useRuntimeConfig(event)
+  return (config.previewSecret as string) || ''
+}
+
+/**
+ * Remember a valid token in the page's access cookie (until the token expires)
+ */
+function setAccessCookie(
+  event: H3Event,
+  target: AccessTarget,
+  token: string,
+  expiresAt: Date
+): void {
+  setCookie(event, getAccessCookieName(target), token, {
+    maxAge: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production'
+  })
+}
+
+function linkExpiredError() {
+  return createError({
+    statusCode: 410,
+    statusMessage: 'Preview link expired',
+    data: { access: 'expired' }
+  })
+}
+
+// =============================================================================
+// ACCESS CHECK (per request, before loadPage returns content)
+// =============================================================================
+
+/**
+ * Check a visitor's access to a protected p/demo page
+ *
+ * Accepted, in order:
+ * 1. `?t=` signed link (when access.token) → also stored in the access cookie
+ * 2. access cookie (link, or password session when access.passwordHash)
+ *
+ * Refusals:
+ * - 410 when access.expiresAt has passed or the link is validly signed but expired
+ * - 401 (data.access = 'password') when a password can open the page
+ * - 404 otherwise (a protected page is indistinguishable from a missing one)
+ *
+ * Marks the response private (content depends on the visitor's link/cookie); the
+ * SSR HTML gets the same policy from LoadedPage.cacheControl (see loadPage).
+ *
+ * @param event - H3 event (query token from caller, cookie in, Set-Cookie out)
+ * @param target - { kind, slug } requested
+ * @param access - Parsed access block
+ * @param token - Signed token from the page URL (?t=)
+ */
+export async function checkPageAccess(
+  event: H3Event,
+  target: AccessTarget,
+  access: PageAccess,
+  token?: string
+): Promise<void> {
+  setHeader(event, 'Cache-Control', PRIVATE_PAGE_CACHE_CONTROL)
+
+  if (isAccessExpired(access)) {
+    throw linkExpiredError()
+  }
+
+  // Nothing to present: the block only sets an expiry date
+  if (!access.token && !access.passwordHash) return
+
+  const secret = getPreviewSecret(event)
+  let linkExpired = false
+
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(
+        `[pageAccess] NUXT_PREVIEW_SECRET is not set — links to ${target.kind}/${target.slug} cannot be verified`
+      )
+    }
+  } else {
+    if (token && access.token) {
+      const check = await verifyAccessToken(token, target, secret)
+      if (check.valid && !check.fromPassword) {
+        setAccessCookie(event, target, token, check.expiresAt)
+        return
+      }
+      linkExpired = !check.valid && check.reason === 'expired'
+    }
+
+    const cookie = getCookie(event, getAccessCookieName(target))
+    if (cookie) {
+      const check = await verifyAccessToken(cookie, target, secret)
+      if (check.valid && (check.fromPassword ? Boolean(access.passwordHash) : access.token)) {
+        return
+      }
+    }
+  }
+
+  if (linkExpired) {
+    throw linkExpiredError()
+  }
+
+  if (access.passwordHash) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Password required',
+      data: { access: 'password', kind: target.kind, slug: target.slug }
+    })
+  }
+
+  throw createError({
+    statusCode: 404,
+    statusMessage: `Page not found: ${target.kind}/${target.slug}`
+  })
+}
+
+// =============================================================================
+// PASSWORD ATTEMPTS (each one runs a 600k-iteration PBKDF2)
+// =============================================================================
+
+/** Fixed window of the attempt counters, started by the first attempt */
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+
+/** Attempts per window from one IP (all pages) */
+const PASSWORD_ATTEMPTS_PER_IP = 10
+
+/** Attempts per window on one page (all IPs): bounds guessing from many IPs */
+const PASSWORD_ATTEMPTS_PER_PAGE = 100
+
+/**
+ * Nitro storage mount of the counters (nuxt.config nitro.storage). In memory unless
+ * NUXT_PAGE_ACCESS_STORAGE names a shared driver — with several server instances,
+ * each one counts on its own otherwise.
+ */
+const PASSWORD_ATTEMPT_STORAGE = 'page-access-attempts'
+
+interface AttemptWindow {
+  count: number
+  resetAt: number
+}
+
+function getAttemptStorage() {
+  return useStorage<AttemptWindow>(PASSWORD_ATTEMPT_STORAGE)
+}
+
+/**
+ * Drop finished windows (the memory driver ignores `ttl`)
+ */
+async function pruneAttempts(now: number): Promise<void> {
+  const storage = getAttemptStorage()
+  for (const key of await storage.getKeys()) {
+    const counter = await storage.getItem(key)
+    if (!counter || counter.resetAt <= now) {
+      await storage.removeItem(key)
+    }
+  }
+}
+
+/**
+ * Count a password attempt for the visitor's IP and the page
+ *
+ * Throws 429 (Retry-After: end of the full window) when either counter is spent,
+ * before the password is hashed. Finished windows are pruned when a page's window
+ * starts over (at most once per page per window).
+ */
+async function countPasswordAttempt(event: H3Event, target: AccessTarget): Promise<void> {
+  const storage = getAttemptStorage()
+  const now = Date.now()
+  const ip = getRequestIP(event, { xForwardedFor: true }) ?? 'unknown'
+
+  const counters = [
+    { key: `page:${target.kind}:${target.slug}`, limit: PASSWORD_ATTEMPTS_PER_PAGE },
+    { key: `ip:${ip}`, limit: PASSWORD_ATTEMPTS_PER_IP }
+  ]
+
+  const windows: AttemptWindow[] = []
+  for (const { key, limit } of counters) {
+    const stored = await storage.getItem(key)
+    const counter =
+      stored && stored.resetAt > now
+        ? stored
+        : { count: 0, resetAt: now + PASSWORD_ATTEMPT_WINDOW_MS }
+
+    if (counter.count >= limit) {
+      setHeader(event, 'Retry-After', Math.ceil((counter.resetAt - now) / 1000))
+      throw createError({
+        statusCode: 429,
+        statusMessage: 'Too many password attempts',
+        data: { access: 'throttled' }
+      })
+    }
+    windows.push(counter)
+  }
+
+  if (windows[0]!.count === 0) {
+    await pruneAttempts(now)
+  }
+
+  for (const [i, { key }] of counters.entries()) {
+    const counter = windows[i]!
+    await storage.setItem(
+      key,
+      { count: counter.count + 1, resetAt: counter.resetAt },
+      { ttl: Math.ceil((counter.resetAt - now) / 1000) }
+    )
+  }
+}
+
+/**
+ * Open a password session for a page (POST /api/__page__/access)
+ *
+ * Attempts are rate limited per IP and per page (429, see countPasswordAttempt).
+ *
+ * @returns true if the password matches access.passwordHash (cookie set), false otherwise
+ */
+export async function openPasswordSession(
+  event: H3Event,
+  target: AccessTarget,
+  access: PageAccess,
+  password: string
+): Promise<boolean> {
+  if (isAccessExpired(access)) {
+    throw linkExpiredError()
+  }
+
+  if (!access.passwordHash) {
+    return false
+  }
+
+  await countPasswordAttempt(event, target)
+
+  if (!(await verifyAccessPassword(password, access.passwordHash))) {
+    return false
+  }
+
+  const secret = getPreviewSecret(event)
+  if (!secret) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Preview access is not configured (NUXT_PREVIEW_SECRET)'
+    })
+  }
+
+  // Session lasts PASSWORD_SESSION_MAX_AGE, never beyond access.expiresAt
+  const sessionEnd = new Date(Date.now() + PASSWORD_SESSION_MAX_AGE * 1000)
+  const accessEnd = parseAccessExpiry(access)
+  const expiresAt = accessEnd && accessEnd < sessionEnd ? accessEnd : sessionEnd
+
+  const token = await signAccessToken(target, expiresAt, secret, true)
+  setAccessCookie(event, target, token, expiresAt)
+  return true
+}
+
+// =============================================================================
+// DRAFT PREVIEW (pages with draft: true)
+// =============================================================================
+
+/**
+ * Check if the visitor has a valid draft preview session (iw_preview cookie)
+ */
+export async function hasDraftPreview(event: H3Event): Promise<boolean> {
+  const cookie = getCookie(event, DRAFT_PREVIEW_COOKIE)
+  const secret = getPreviewSecret(event)
+  if (!cookie || !secret) return false
+
+  const check = await verifyAccessToken(cookie, DRAFT_PREVIEW_TARGET, secret)
+  return check.valid
+}
+
+/**
+ * Open a draft preview session when `secret` matches NUXT_PREVIEW_SECRET
+ *
+ * @returns true if the session cookie was set
+ */
+export async function openDraftPreview(event: H3Event, secret: string): Promise<boolean> {
+  const previewSecret = getPreviewSecret(event)
+  if (!previewSecret || !safeEqual(secret, previewSecret)) return false
+
+  const expiresAt = new Date(Date.now() + DRAFT_PREVIEW_MAX_AGE * 1000)
+  const token = await signAccessToken(DRAFT_PREVIEW_TARGET, expiresAt, previewSecret)
+  setCookie(event, DRAFT_PREVIEW_COOKIE, token, {
+    maxAge: DRAFT_PREVIEW_MAX_AGE,
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production'
+  })
+  return true
+}
+
+/**
+ * Leave draft preview (drafts 404 again)
+ */
+export function closeDraftPreview(event: H3Event): void {
+  deleteCookie(event, DRAFT_PREVIEW_COOKIE, { path: '/' })
+}
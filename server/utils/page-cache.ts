@@ -0,0 +1,122 @@
+import { createHash } from 'node:crypto'
+import type { H3Event } from 'h3'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PageCacheStats {
+  size: number
+  hits: number
+  misses: number
+}
+
+interface PageCacheTiming {
+  status: 'hit' | 'miss'
+  /** Lookup (hit) or build (miss) duration, ms */
+  dur: number
+}
+
+// =============================================================================
+// CACHE (process-level LRU, content is static in production)
+// =============================================================================
+
+/** Max pages kept in memory (least recently used evicted first) */
+export const PAGE_CACHE_MAX_ENTRIES = 500
+
+// Map keeps insertion order: first key = least recently used
+const cache = new Map<string, unknown>()
+const stats = { hits: 0, misses: 0 }
+
+/**
+ * Cache key of a page (requested locale, before fallback)
+ */
+export function getPageCacheKey(params: { kind: string; slug: string; locale: string }): string {
+  return `${params.locale}:${params.kind}/${params.slug || 'index'}`
+}
+
+/**
+ * Get a cached value or build it (null = not found is cached too)
+ *
+ * - Thrown errors (invalid page) are NOT cached
+ * - Cached values are shared between requests: treat them as read-only
+ * - Hit/miss is recorded on the event for setPageCacheTiming
+ */
+export async function getOrBuildPage<T>(
+  event: H3Event,
+  key: string,
+  build: () => Promise<T>
+): Promise<T> {
+  const start = performance.now()
+
+  if (cache.has(key)) {
+    const value = cache.get(key) as T
+    // Refresh recency
+    cache.delete(key)
+    cache.set(key, value)
+    stats.hits++
+    event.context.pageCache = { status: 'hit', dur: performance.now() - start }
+    return value
+  }
+
+  const value = await build()
+  cache.set(key, value)
+  if (cache.size > PAGE_CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!)
+  }
+  stats.misses++
+  event.context.pageCache = { status: 'miss', dur: performance.now() - start }
+  return value
+}
+
+/**
+ * Drop every cached page (content changed, see server/plugins/page-cache.ts)
+ */
+export function clearPageCache(): void {
+  cache.clear()
+}
+
+export function getPageCacheStats(): PageCacheStats {
+  return { size: cache.size, ...stats }
+}
+
+// =============================================================================
+// HTTP HELPERS (/api/__page__/get)
+// =============================================================================
+
+/**
+ * Expose the cache result + process-wide counters as Server-Timing
+ *   page-cache;desc="hit";dur=0.1, page-cache-hits;desc="42", page-cache-misses;desc="7"
+ */
+export function setPageCacheTiming(event: H3Event): void {
+  const timing = event.context.pageCache as PageCacheTiming | undefined
+  const metrics = [
+    ...(timing ? [`page-cache;desc="${timing.status}";dur=${timing.dur.toFixed(1)}`] : []),
+    `page-cache-hits;desc="${stats.hits}"`,
+    `page-cache-misses;desc="${stats.misses}"`
+  ]
+  setHeader(event, 'Server-Timing', metrics.join(', '))
+}
+
+/**
+ * Strong ETag: hash of the response body
+ * (the same page differs per A/B variant or publishing window, so the body is hashed)
+ */
+export function getPageETag(body: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(body)).digest('base64url')
+  return `"${hash.slice(0, 27)}"`
+}
+
+/**
+ * Check If-None-Match against an ETag (weak comparison, as required for If-None-Match)
+ */
+export function isNotModified(event: H3Event, etag: string): boolean {
+  const header = getRequestHeader(event, 'if-none-match')
+  if (!header) return false
+  if (header.trim() === '*') return true
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .includes(etag)
+}
@@ -0,0 +1,288 @@
+import { serverQueryContent } from '#content/server'
+import type { H3Event } from 'h3'
+import { parseContentPath, type PageContentPath } from '../../app/config/localePaths'
+import { getPageUrlPath } from '../../app/config/redirects'
+import { getPacksUsed } from '../../app/packs/getPacksUsed'
+import { getPublishStatus, type PublishStatus } from '../../app/schema/page.schedule'
+import { buildPageFromDocument, getRuntimeI18n, type BuiltPage, type PageKind } from './page-loader'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One page file (kind/slug/locale) without its props payload
+ */
+export interface PageSummary {
+  kind: PageKind
+  slug: string
+  locale: string
+  /** Public URL path (e.g. /en/about, /p/offre-dupont) */
+  path: string
+  title: string
+  draft: boolean
+  /** Publishing window status (scheduled / live / expired) */
+  status: PublishStatus
+  noindex: boolean
+  /** Has an `access:` block (signed link / password) */
+  protected: boolean
+  /** Last change (ISO 8601): declared updatedAt, else last commit / mtime of the file */
+  updatedAt?: string
+  packKey?: string
+  /** getPacksUsed: page pack + section packs */
+  packs: string[]
+  /** Section ids, in order, including A/B variant ids */
+  sections: string[]
+  shell: { header: string | null; footer: string | null }
+  partials: string[]
+  /** Locales with their own file for this kind/slug */
+  translations: string[]
+  /** Page builds and every props object is valid */
+  valid: boolean
+  /** Why the page does not build (500 for visitors) */
+  error?: string
+}
+
+export interface PageListFilters {
+  kind?: PageKind
+  locale?: string
+  /** Pack used by the page or one of its sections */
+  pack?: string
+  /** Section id used (any variant) */
+  section?: string
+  /** Shell component id (header or footer) */
+  shell?: string
+  draft?: boolean
+  /** Case-insensitive search in seo.title */
+  q?: string
+}
+
+export interface PageListResult {
+  items: PageSummary[]
+  /**
+   * Pages matching the filters (all pages of the cursor walk), null with pack,
+   * section, shell or q: counting them would build every page
+   */
+  total: number | null
+  /**
+   * Pass as `cursor` to get the next page, null on the last page. With pack,
+   * section, shell or q a call builds at most `limit` pages: fewer items (even
+   * none) may come back before the end, keep following the cursor.
+   */
+  nextCursor: string | null
+}
+
+/** Content document as written (built in place, see buildPageSummary) */
+interface PageListDocument extends Record<string, unknown> {
+  _path?: string
+  draft?: boolean
+  seo?: { title?: string }
+}
+
+/** Fields known from the content path alone */
+type PageFileInfo = Pick<PageSummary, 'kind' | 'slug' | 'locale' | 'path' | 'translations'>
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const PAGE_LIST_DEFAULT_LIMIT = 50
+export const PAGE_LIST_MAX_LIMIT = 200
+
+// =============================================================================
+// CURSOR (opaque: content path of the last item returned)
+// =============================================================================
+
+export function encodePageListCursor(contentPath: string): string {
+  return Buffer.from(contentPath, 'utf-8').toString('base64url')
+}
+
+/**
+ * @param locales - Configured locales (runtimeConfig.public.locales)
+ * @returns Content path, or null if the cursor is not one of ours
+ */
+export function decodePageListCursor(cursor: string, locales: string[]): string | null {
+  const contentPath = Buffer.from(cursor, 'base64url').toString('utf-8')
+  return parseContentPath(contentPath, locales) ? contentPath : null
+}
+
+// =============================================================================
+// SUMMARY
+// =============================================================================
+
+function summarizePage(built: BuiltPage, file: PageFileInfo, now: Date): PageSummary {
+  const { page } = built
+  const sections = new Set<string>()
+  for (const section of page.sections) {
+    sections.add(section.id)
+    for (const variant of section.variants ?? []) {
+      if (variant.id) sections.add(variant.id)
+    }
+  }
+
+  return {
+    ...file,
+    title: page.seo.title,
+    draft: page.draft === true,
+    status: getPublishStatus(page, now),
+    noindex: page.seo.noindex === true,
+    protected: built.access !== undefined,
+    ...(page.updatedAt && { updatedAt: page.updatedAt }),
+    ...(page.packKey && { packKey: page.packKey }),
+    // Same pack rules as the page routes (app PageDef: literal schemaVersion)
+    packs: getPacksUsed(page as Parameters<typeof getPacksUsed>[0]),
+    sections: [...sections],
+    shell: { header: page.shell.header?.id ?? null, footer: page.shell.footer?.id ?? null },
+    partials: built.partials,
+    valid: built.issues.length === 0
+  }
+}
+
+/**
+ * Filters that need the built page (packs, sections, shells, title after kits)
+ */
+function hasBuildFilters(filters: PageListFilters): boolean {
+  return Boolean(filters.pack || filters.section || filters.shell || filters.q)
+}
+
+function matchesBuildFilters(summary: PageSummary, filters: PageListFilters): boolean {
+  if (filters.pack && !summary.packs.includes(filters.pack)) return false
+  if (filters.section && !summary.sections.includes(filters.section)) return false
+  if (
+    filters.shell &&
+    summary.shell.header !== filters.shell &&
+    summary.shell.footer !== filters.shell
+  ) {
+    return false
+  }
+  if (filters.q && !summary.title.toLowerCase().includes(filters.q.toLowerCase())) return false
+  return true
+}
+
+/**
+ * Build one page and summarize it (invalid pages get `valid: false` + `error`)
+ *
+ * Built with buildPageFromDocument, not loadPageContent: a list walks every page
+ * and would evict the visitors' pages from the page cache (LRU).
+ */
+async function buildPageSummary(
+  event: H3Event,
+  doc: PageListDocument,
+  parsed: PageContentPath,
+  file: PageFileInfo,
+  now: Date
+): Promise<PageSummary> {
+  try {
+    const built = await buildPageFromDocument(
+      event,
+      { kind: parsed.kind, slug: parsed.slug },
+      { doc, contentLocale: parsed.locale, contentPath: doc._path! }
+    )
+    return summarizePage(built, file, now)
+  } catch (error) {
+    // Invalid page (500 for visitors): listed so tooling can find it
+    return {
+      ...file,
+      title: doc.seo?.title ?? '',
+      draft: doc.draft === true,
+      status: 'live',
+      noindex: false,
+      protected: false,
+      packs: [],
+      sections: [],
+      shell: { header: null, footer: null },
+      partials: [],
+      valid: false,
+      error: (error as { statusMessage?: string }).statusMessage ?? String(error)
+    }
+  }
+}
+
+// =============================================================================
+// LIST
+// =============================================================================
+
+/**
+ * List page builder pages (one item per content file), sorted by content path
+ *
+ * - kind, locale and draft filter the content documents first; the cursor skips
+ *   to its position, then the next `limit` pages are built (scan budget) and the
+ *   ones matching pack/section/shell/q are returned — a filter matching nothing
+ *   never builds the whole site in one call
+ * - Pages are built like loadPage (kits, partials, props), outside the page cache,
+ *   without publishing windows, drafts or access: state is reported instead
+ * - Pages that fail to build are listed with `valid: false` and `error`
+ *
+ * @param event - H3 event
+ * @param filters - Filters (all optional, combined with AND)
+ * @param options - Cursor (from a previous call), limit
+ */
+export async function listPages(
+  event: H3Event,
+  filters: PageListFilters,
+  options: { cursor?: string; limit: number }
+): Promise<PageListResult> {
+  const i18n = getRuntimeI18n(event)
+
+  // Drafts are hidden in production unless the query mentions `_draft`
+  const documents = (await serverQueryContent(event)
+    .where({ _draft: { $in: [true, false] } })
+    .find()) as PageListDocument[]
+
+  const files = documents
+    .map((doc) => ({ doc, parsed: doc._path ? parseContentPath(doc._path, i18n.locales) : null }))
+    .filter(
+      (file): file is { doc: PageListDocument; parsed: PageContentPath } => file.parsed !== null
+    )
+    .sort((a, b) => (a.doc._path! < b.doc._path! ? -1 : 1))
+
+  // Translations: every locale with its own file for the same kind/slug
+  const translations = new Map<string, string[]>()
+  for (const { parsed } of files) {
+    const key = `${parsed.kind}/${parsed.slug}`
+    translations.set(key, [...(translations.get(key) ?? []), parsed.locale])
+  }
+
+  // Document filters: no build needed
+  const candidates = files.filter(
+    ({ doc, parsed }) =>
+      (!filters.kind || parsed.kind === filters.kind) &&
+      (!filters.locale || parsed.locale === filters.locale) &&
+      (filters.draft === undefined || (doc.draft === true) === filters.draft)
+  )
+
+  const start = options.cursor ? candidates.findIndex(({ doc }) => doc._path! > options.cursor!) : 0
+  const remaining = start === -1 ? [] : candidates.slice(start)
+
+  // Scan budget: at most `limit` builds per call, matching or not
+  const scanned = remaining.slice(0, options.limit)
+
+  const now = new Date()
+  const items: PageSummary[] = []
+
+  for (const { doc, parsed } of scanned) {
+    const file: PageFileInfo = {
+      kind: parsed.kind,
+      slug: parsed.slug,
+      locale: parsed.locale,
+      path: getPageUrlPath(parsed.kind, parsed.slug, parsed.locale, i18n),
+      translations: i18n.locales.filter((locale) =>
+        translations.get(`${parsed.kind}/${parsed.slug}`)!.includes(locale)
+      )
+    }
+
+    const summary = await buildPageSummary(event, doc, parsed, file, now)
+    if (matchesBuildFilters(summary, filters)) {
+      items.push(summary)
+    }
+  }
+
+  return {
+    items,
+    total: hasBuildFilters(filters) ? null : candidates.length,
+    nextCursor:
+      remaining.length > scanned.length
+        ? encodePageListCursor(scanned[scanned.length - 1]!.doc._path!)
+        : null
+  }
+}
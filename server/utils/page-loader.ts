@@ -8,6 +8,41 @@ import { z } from 'zod/v4'
 
 // Import centralized policy (script-safe, no Nuxt deps)
 import { type PageKind, getNoindexKinds } from '../../app/config/pagePolicy'
+// Content paths (locale-aware, region locales + nested slugs)
+import { buildContentPath, getLocaleChain, toContentLocale } from '../../app/config/localePaths'
+// Page aliases (redirected by server/middleware/redirects.ts)
+import { PageAliasSchema } from '../../app/config/redirects'
+// Versioned schema + ordered migrations (shared with guard-pages and content:migrate)
+import { PAGE_SCHEMA_VERSION, migratePage, type RawPage } from '../../app/schema/page.migrations'
+// Content kits (kit + vars expansion, shared with guard-pages)
+import { expandKit } from '../../app/schema/page.kits'
+// Content partials ($ref resolution, shared with guard-pages)
+import { resolvePartials } from '../../app/schema/page.partials'
+// Publishing windows (publishAt/unpublishAt, shared with sitemap and guard-pages)
+import { PublishDateSchema, isPublished } from '../../app/schema/page.schedule'
+// Section A/B experiments (variants validated here, assigned per request in experiments.ts)
+import {
+  ExperimentKeySchema,
+  SectionVariantSchema,
+  getExperimentError,
+  resolveSectionVariant,
+  type SectionVariant
+} from '../../app/schema/page.experiments'
+// Preview access for p/demo pages + draft preview (checked per request in page-access.ts)
+import {
+  PRIVATE_PAGE_CACHE_CONTROL,
+  PageAccessSchema,
+  getAccessError,
+  type PageAccess
+} from '../../app/schema/page.access'
+import { checkPageAccess, hasDraftPreview } from './page-access'
+// Page updatedAt fallback: last git commit / mtime of the content file
+import { getContentUpdatedAt } from './content-timestamps'
+// In-process page cache (content-only part of loadPage)
+import { getOrBuildPage, getPageCacheKey } from './page-cache'
+// Section/shell manifests (data-only, shared with guard-pages)
+import { validateSectionProps } from '../../app/sections/sections.manifest'
+import { validateShellProps } from '../../app/shells/shells.manifest'
 
 export type { PageKind }
 
@@ -36,28 +71,111 @@ export interface SectionDef {
   pack?: string
   props: Record<string, unknown>
   overrides?: Record<string, string>
+  publishAt?: string
+  unpublishAt?: string
+  /** A/B experiment key (with `variants` until assigned, then `variant`) */
+  experiment?: string
+  variants?: SectionVariant[]
+  /** Variant served to this visitor (set by assignExperiments) */
+  variant?: string
 }
 
 export interface PageDef {
+  schemaVersion: number
   kind: PageKind
   slug?: string
+  /** Old slugs 301-redirected to this page */
+  aliases?: string[]
   packKey?: string
   themeOverrides?: Record<string, string>
   seo: PageSeo
   shell: PageShell
   sections: SectionDef[]
+  publishAt?: string
+  unpublishAt?: string
+  /** Last change (ISO 8601): declared, or last git commit / mtime of the page file */
+  updatedAt?: string
+  /** Draft: 404 unless the visitor is in draft preview (see page-access.ts) */
+  draft?: boolean
+  /** Experiment key → variant served to this visitor (set by assignExperiments) */
+  experiments?: Record<string, string>
+  /** Locale of the content served (set by the page API, differs from the requested
+   *  locale on fallback) */
+  contentLocale?: string
+  /** Cache-Control for the page response when it depends on the visitor (set by the
+   *  page API, applied to the SSR HTML by usePageLoader) */
+  cacheControl?: string
+}
+
+/**
+ * Props validation issue (same checks as guard-pages)
+ */
+export interface PropIssue {
+  /** Where the invalid props live */
+  target: 'section' | 'shell'
+  /** Index in page.sections (target = 'section') */
+  sectionIndex?: number
+  /** Shell slot (target = 'shell') */
+  slot?: 'header' | 'footer'
+  /** Section or shell id */
+  id: string
+  /** Experiment variant key (section with variants) */
+  variant?: string
+  /** Dotted prop path, '' for the props object itself */
+  path: string
+  message: string
+}
+
+/**
+ * Result of loadPage: page with parsed props + props issues (empty when valid)
+ */
+export interface LoadedPage {
+  page: PageDef
+  issues: PropIssue[]
+  /** Partials the page depends on (e.g. "partials/cta-interweb"), sorted */
+  partials: string[]
+  /** Locale of the content served (a fallback locale when not translated) */
+  contentLocale: string
+  /**
+   * Cache-Control of a response that depends on the visitor (draft in preview,
+   * protected page): the page API returns it in PageDef.cacheControl so the SSR
+   * HTML gets it too
+   */
+  cacheControl?: string
+}
+
+/**
+ * Content-only part of loadPage (cached): full page, before per-request rules
+ */
+export interface BuiltPage extends LoadedPage {
+  access?: PageAccess
+  contentPath: string
 }
 
 export interface LoadPageParams {
   kind: PageKind
   slug: string
   locale: string
+  /** Signed preview token (?t=), for pages with an access block */
+  token?: string
+}
+
+/**
+ * Page content document found for a request (after locale fallback)
+ */
+export interface PageDocument {
+  doc: Record<string, unknown>
+  /** Locale of the document (first locale of the fallback chain that has it) */
+  contentLocale: string
+  contentPath: string
 }
 
 export interface RuntimeI18n {
   defaultLocale: string
   locales: string[]
   localeMeta: Record<string, string>
+  /** Locale → fallback locales (see getLocaleChain) */
+  localeFallbacks: Record<string, string[]>
   siteUrl: string
 }
 
@@ -108,22 +226,43 @@ const PageShellSchema = z.object({
   footer: ShellComponentSchema
 })
 
-const SectionDefSchema = z.object({
-  id: z.string().min(1),
-  pack: z.string().optional(),
-  props: z.record(z.string(), z.unknown()).optional().default({}),
-  overrides: CssOverridesSchema
-})
-
-const PageDefSchema = z.object({
-  kind: z.enum(['site', 'p', 'demo']),
-  slug: z.string().optional(),
-  packKey: z.string().optional(),
-  themeOverrides: CssOverridesSchema,
-  seo: PageSeoSchema,
-  shell: PageShellSchema.optional().default({}),
-  sections: z.array(SectionDefSchema).min(1)
-})
+const SectionDefSchema = z
+  .object({
+    id: z.string().min(1),
+    pack: z.string().optional(),
+    props: z.record(z.string(), z.unknown()).optional().default({}),
+    overrides: CssOverridesSchema,
+    publishAt: PublishDateSchema.optional(),
+    unpublishAt: PublishDateSchema.optional(),
+    experiment: ExperimentKeySchema.optional(),
+    variants: z.array(SectionVariantSchema).optional()
+  })
+  .superRefine((section, ctx) => {
+    const error = getExperimentError(section)
+    if (error) ctx.addIssue({ code: 'custom', message: error })
+  })
+
+const PageDefSchema = z
+  .object({
+    schemaVersion: z.literal(PAGE_SCHEMA_VERSION),
+    kind: z.enum(['site', 'p', 'demo']),
+    slug: z.string().optional(),
+    aliases: z.array(PageAliasSchema).optional(),
+    packKey: z.string().optional(),
+    themeOverrides: CssOverridesSchema,
+    seo: PageSeoSchema,
+    shell: PageShellSchema.optional().default({}),
+    sections: z.array(SectionDefSchema).min(1),
+    publishAt: PublishDateSchema.optional(),
+    unpublishAt: PublishDateSchema.optional(),
+    updatedAt: PublishDateSchema.optional(),
+    draft: z.boolean().optional(),
+    access: PageAccessSchema.optional()
+  })
+  .superRefine((page, ctx) => {
+    const error = getAccessError(page.kind, page.access)
+    if (error) ctx.addIssue({ code: 'custom', message: error, path: ['access'] })
+  })
 
 // =============================================================================
 // HELPERS
@@ -147,6 +286,7 @@ export function getRuntimeI18n(event: H3Event): RuntimeI18n {
     fr: 'fr-FR',
     en: 'en-US'
   }
+  const localeFallbacks = (config.public?.localeFallbacks as Record<string, string[]>) || {}
   const siteUrl = (config.public?.siteUrl as string) || 'https://example.com'
 
   // Normalize: ensure defaultLocale is always in locales
@@ -156,6 +296,7 @@ export function getRuntimeI18n(event: H3Event): RuntimeI18n {
     defaultLocale,
     locales: normalizedLocales,
     localeMeta,
+    localeFallbacks,
     siteUrl
   }
 }
@@ -164,42 +305,125 @@ export function getRuntimeI18n(event: H3Event): RuntimeI18n {
  * Get shell strict mode from runtimeConfig
  * When true, p/demo pages have shells forced to null
  */
-function getShellStrictPrivate(event: H3Event): boolean {
+export function getShellStrictPrivate(event: H3Event): boolean {
   const config = useRuntimeConfig(event)
   return Boolean(config.public?.shellStrictPrivate)
 }
 
 /**
- * Force noindex for certain page kinds (p, demo)
+ * Force noindex for certain page kinds (p, demo) and for drafts
  * Centralized SEO rule
  */
-export function forceNoindex(kind: PageKind, pageSeoNoindex?: boolean): boolean {
-  if (NOINDEX_KINDS.includes(kind)) {
+export function forceNoindex(kind: PageKind, pageSeoNoindex?: boolean, draft?: boolean): boolean {
+  if (NOINDEX_KINDS.includes(kind) || draft === true) {
     return true
   }
   return pageSeoNoindex ?? false
 }
 
 /**
- * Build content path for a page
+ * Query one page document by content path, drafts included
+ * Nuxt Content hides drafts in production unless the query mentions `_draft`;
+ * loadPage decides who sees them (draft preview).
+ */
+async function queryPageDoc(event: H3Event, contentPath: string) {
+  return serverQueryContent(event)
+    .where({ _path: contentPath, _draft: { $in: [true, false] } })
+    .findOne()
+}
+
+/**
+ * Find the content document of a page along the locale's fallback chain
+ * (requested locale, configured fallbacks, default locale — see getLocaleChain)
  *
- * NOTE: Nuxt Content indexes `index.yaml` at the parent directory path.
- * So `content/fr/pages/site/index.yaml` becomes `_path: /fr/pages/site`
+ * @returns Document + locale it was found in and requested path, or null if not found
+ */
+export async function findPageDocument(
+  event: H3Event,
+  params: Omit<LoadPageParams, 'token'>
+): Promise<PageDocument | null> {
+  const { kind, slug, locale } = params
+  const i18n = getRuntimeI18n(event)
+
+  const contentPath = buildContentPath(kind, slug, locale)
+
+  for (const contentLocale of getLocaleChain(locale, i18n)) {
+    const doc = await queryPageDoc(event, buildContentPath(kind, slug, contentLocale))
+    if (doc) {
+      return { doc, contentLocale, contentPath }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Locales that have their own translation of a page (single content query)
  *
- * For home page (slug empty or 'index'), we query the directory path.
- * For other pages, we query the full path.
+ * Same path rules as loadPage (index.yaml = home). Drafts and pages outside their
+ * publishing window do not count: they 404 for visitors.
+ *
+ * @returns Locales in runtimeConfig order (no default-locale fallback)
  */
-function buildContentPath(kind: PageKind, slug: string, locale: string): string {
-  // Home page: index.yaml is indexed at parent directory
-  if (!slug || slug === 'index') {
-    return `/${locale}/pages/${kind}`
+export async function findPageLocales(
+  event: H3Event,
+  kind: PageKind,
+  slug: string
+): Promise<string[]> {
+  const i18n = getRuntimeI18n(event)
+  const paths = new Map(
+    i18n.locales.map((locale) => [buildContentPath(kind, slug, locale), locale])
+  )
+
+  const docs = await serverQueryContent(event)
+    .where({ _path: { $in: [...paths.keys()] }, draft: { $ne: true } })
+    .only(['_path', 'publishAt', 'unpublishAt'])
+    .find()
+
+  const now = new Date()
+  const found = new Set(
+    docs.filter((doc) => isPublished(doc, now)).map((doc) => paths.get(doc._path as string))
+  )
+
+  return i18n.locales.filter((locale) => found.has(locale))
+}
+
+/**
+ * Load a partial document (content/<locale>/partials/<name>.yaml)
+ * Falls back along the locale's fallback chain, like pages
+ */
+export async function loadPartialDoc(
+  event: H3Event,
+  ref: string,
+  locale: string
+): Promise<Record<string, unknown> | null> {
+  for (const contentLocale of getLocaleChain(locale, getRuntimeI18n(event))) {
+    const doc = await serverQueryContent(event)
+      .where({ _path: `/${toContentLocale(contentLocale)}/${ref}` })
+      .findOne()
+    if (doc) return doc as Record<string, unknown>
   }
-  return `/${locale}/pages/${kind}/${slug}`
+
+  return null
+}
+
+/**
+ * Load a kit document (content/kits/<id>.yaml — not localized)
+ */
+export async function loadKitDoc(
+  event: H3Event,
+  id: string
+): Promise<Record<string, unknown> | null> {
+  const doc = await serverQueryContent(event)
+    .where({ _path: `/kits/${id}` })
+    .findOne()
+
+  return (doc as Record<string, unknown> | null) ?? null
 }
 
 /**
- * Normalize shell component from old format (string | null) to new format ({ id, props } | null)
- * Provides backward compatibility for existing YAML files
+ * Normalize shell component to { id, props } | null
+ * Old string format is upgraded beforehand by migratePage (see page.migrations.ts)
  */
 function normalizeShellComponent(
   value: unknown
@@ -207,12 +431,7 @@ function normalizeShellComponent(
   if (value === null) return null
   if (value === undefined) return undefined
 
-  // Old format: string -> convert to { id, props: {} }
-  if (typeof value === 'string') {
-    return { id: value, props: {} }
-  }
-
-  // New format: { id, props? }
+  // { id, props? }
   if (typeof value === 'object' && value !== null && 'id' in value) {
     const obj = value as { id: string; props?: Record<string, unknown> }
     return { id: obj.id, props: obj.props || {} }
@@ -223,7 +442,7 @@ function normalizeShellComponent(
 }
 
 /**
- * Normalize shell object with backward compatibility
+ * Normalize shell object (header/footer)
  */
 function normalizeShell(shell: unknown): {
   header?: { id: string; props: Record<string, unknown> } | null
@@ -268,51 +487,197 @@ function validateShellSlots(shell: PageShell, isDev: boolean, contentPath: strin
   }
 }
 
+/**
+ * Validate section and shell props against the manifests
+ *
+ * - Valid props are replaced by the parsed data (defaults applied)
+ * - Invalid props are kept as-is and reported as structured issues
+ */
+export function validatePageProps(page: PageDef): Omit<LoadedPage, 'partials' | 'contentLocale'> {
+  const issues: PropIssue[] = []
+
+  const sections = page.sections.map((section, index) => {
+    // Experiments: every variant must be valid (props stay raw, parsed once assigned)
+    if (section.variants) {
+      for (const variant of section.variants) {
+        const effective = resolveSectionVariant(section, variant.key)
+        const result = validateSectionProps(effective.id, effective.props)
+        if (result.success) continue
+        for (const { path, message } of result.issues) {
+          issues.push({
+            target: 'section',
+            sectionIndex: index,
+            id: effective.id,
+            variant: variant.key,
+            path,
+            message
+          })
+        }
+      }
+      return section
+    }
+
+    const result = validateSectionProps(section.id, section.props)
+    if (result.success) {
+      return { ...section, props: result.data as Record<string, unknown> }
+    }
+    for (const { path, message } of result.issues) {
+      issues.push({ target: 'section', sectionIndex: index, id: section.id, path, message })
+    }
+    return section
+  })
+
+  const shell: PageShell = { ...page.shell }
+
+  for (const slot of ['header', 'footer'] as const) {
+    const component = page.shell[slot]
+    if (!component) continue
+
+    const result = validateShellProps(component.id, component.props)
+    if (result.success) {
+      shell[slot] = { ...component, props: result.data as Record<string, unknown> }
+      continue
+    }
+    for (const { path, message } of result.issues) {
+      issues.push({ target: 'shell', slot, id: component.id, path, message })
+    }
+  }
+
+  return { page: { ...page, sections, shell }, issues }
+}
+
+/**
+ * Format a props issue for logs and error messages
+ * e.g. "Section[2] (faq.simple): items.0.q: Required"
+ */
+export function formatPropIssue(issue: PropIssue): string {
+  const id = issue.variant ? `${issue.id}, variant ${issue.variant}` : issue.id
+  const where =
+    issue.target === 'section'
+      ? `Section[${issue.sectionIndex}] (${id})`
+      : `shell.${issue.slot} (${id})`
+  return issue.path ? `${where}: ${issue.path}: ${issue.message}` : `${where}: ${issue.message}`
+}
+
 // =============================================================================
 // MAIN LOADER (Server-side only)
 // =============================================================================
 
 /**
- * Load a page definition from content (server-side)
- *
- * Features:
- * - Uses serverQueryContent (NOT queryContent)
- * - Locale fallback to defaultLocale
- * - Zod validation with detailed errors in DEV
- * - Backward compatibility for old shell format (string | null)
- * - Shell slot validation (header.* in header, footer.* in footer)
- * - Optional strict mode for p/demo (forces shells to null)
- * - Returns null if not found (caller handles 404)
- *
- * @param event - H3 event
- * @param params - { kind, slug, locale }
- * @returns PageDef or null
+ * Build a page from content: query → migrate → kit → partials → Zod → props
+ * Everything here depends on content only (cached by loadPage); per-request rules
+ * (publishing windows, drafts, access) are applied by loadPage.
  */
-export async function loadPage(event: H3Event, params: LoadPageParams): Promise<PageDef | null> {
+async function buildPage(event: H3Event, params: LoadPageParams): Promise<BuiltPage | null> {
   const { kind, slug, locale } = params
-  const i18n = getRuntimeI18n(event)
+
+  // Query content via serverQueryContent (server-only, locale fallback)
+  const found = await findPageDocument(event, { kind, slug, locale })
+
+  // Not found
+  if (!found) {
+    return null
+  }
+
+  return buildPageFromDocument(event, { kind, slug }, found)
+}
+
+/**
+ * Build a page from its document as written in YAML: migrate → kit → partials →
+ * Zod → props (throws 500 on invalid definitions, props issues are returned)
+ *
+ * Also used for unsaved pages (render preview): `found.contentPath` is then the
+ * path the page would have, nothing is read from it.
+ */
+export async function buildPageFromDocument(
+  event: H3Event,
+  params: Pick<LoadPageParams, 'kind' | 'slug'>,
+  found: PageDocument
+): Promise<BuiltPage> {
+  const { kind, slug } = params
   const isDev = process.env.NODE_ENV !== 'production'
   const shellStrictPrivate = getShellStrictPrivate(event)
 
-  // Build content path
-  const contentPath = buildContentPath(kind, slug, locale)
+  const { doc: rawPage, contentLocale, contentPath } = found
+
+  // ==========================================================================
+  // MIGRATE: upgrade older schemaVersion pages in memory
+  // ==========================================================================
+  const migration = migratePage(rawPage as RawPage)
 
-  // Query content via serverQueryContent (server-only)
-  let rawPage = await serverQueryContent(event).where({ _path: contentPath }).findOne()
+  if (!migration.success) {
+    if (isDev) {
+      console.error('[loadPage] Page migration failed:', {
+        path: contentPath,
+        error: migration.error
+      })
+    }
+    throw createError({
+      statusCode: 500,
+      statusMessage: isDev
+        ? `Invalid page definition: ${migration.error} (${contentPath})`
+        : 'Invalid page configuration'
+    })
+  }
 
-  // Fallback to default locale if not found and locale is not default
-  if (!rawPage && locale !== i18n.defaultLocale) {
-    const fallbackPath = buildContentPath(kind, slug, i18n.defaultLocale)
-    rawPage = await serverQueryContent(event).where({ _path: fallbackPath }).findOne()
+  if (isDev && migration.applied.length > 0) {
+    console.warn(
+      `[loadPage] ${contentPath} migrated in memory from schemaVersion ${migration.fromVersion} to ${PAGE_SCHEMA_VERSION} — run pnpm content:migrate to update the file`
+    )
   }
 
-  // Not found
-  if (!rawPage) {
-    return null
+  // ==========================================================================
+  // EXPAND KIT (kit + vars → full page)
+  // ==========================================================================
+  const expansion = await expandKit(migration.page, (id) => loadKitDoc(event, id))
+
+  if (!expansion.success) {
+    if (isDev) {
+      console.error('[loadPage] Kit expansion failed:', {
+        path: contentPath,
+        error: expansion.error
+      })
+    }
+    throw createError({
+      statusCode: 500,
+      statusMessage: isDev
+        ? `Invalid page definition: ${expansion.error} (${contentPath})`
+        : 'Invalid page configuration'
+    })
   }
 
-  // Normalize shell with backward compatibility
-  let normalizedShell = normalizeShell(rawPage.shell)
+  if (isDev && expansion.unresolved.length > 0) {
+    console.warn(
+      `[loadPage] ${contentPath} (kit "${expansion.kit}") has unresolved placeholders: ${expansion.unresolved.map((name) => `{{${name}}}`).join(', ')} — add them to vars`
+    )
+  }
+
+  // ==========================================================================
+  // RESOLVE PARTIALS ($ref in sections and shell slots)
+  // ==========================================================================
+  const resolution = await resolvePartials(expansion.page, (ref) =>
+    loadPartialDoc(event, ref, contentLocale)
+  )
+
+  if (!resolution.success) {
+    if (isDev) {
+      console.error('[loadPage] Partial resolution failed:', {
+        path: contentPath,
+        error: resolution.error
+      })
+    }
+    throw createError({
+      statusCode: 500,
+      statusMessage: isDev
+        ? `Invalid page definition: ${resolution.error} (${contentPath})`
+        : 'Invalid page configuration'
+    })
+  }
+
+  const resolvedPage = resolution.page
+
+  // Normalize shell
+  let normalizedShell = normalizeShell(resolvedPage.shell)
 
   // ==========================================================================
   // STRICT MODE: Force shells to null for p/demo pages
@@ -350,13 +715,25 @@ export async function loadPage(event: H3Event, params: LoadPageParams): Promise<
 
   // Build page data (exclude Nuxt Content metadata)
   const pageData = {
-    kind: rawPage.kind ?? kind,
-    slug: rawPage.slug ?? slug,
-    packKey: rawPage.packKey,
-    themeOverrides: rawPage.themeOverrides,
-    seo: rawPage.seo,
+    schemaVersion: resolvedPage.schemaVersion,
+    kind: resolvedPage.kind ?? kind,
+    slug: resolvedPage.slug ?? slug,
+    aliases: resolvedPage.aliases,
+    packKey: resolvedPage.packKey,
+    themeOverrides: resolvedPage.themeOverrides,
+    seo: resolvedPage.seo,
     shell: normalizedShell,
-    sections: rawPage.sections
+    sections: resolvedPage.sections,
+    publishAt: resolvedPage.publishAt,
+    unpublishAt: resolvedPage.unpublishAt,
+    draft: resolvedPage.draft,
+    // Declared on the page file itself (not taken from kits or partials); updatedAt
+    // defaults to the date of the file served (fallback locale file on fallback)
+    updatedAt: getContentUpdatedAt(
+      typeof rawPage._path === 'string' ? rawPage._path : contentPath,
+      migration.page.updatedAt
+    ),
+    access: migration.page.access
   }
 
   // Validate with Zod
@@ -377,5 +754,134 @@ export async function loadPage(event: H3Event, params: LoadPageParams): Promise<
     })
   }
 
-  return result.data as PageDef
+  // ==========================================================================
+  // VALIDATE SECTION + SHELL PROPS (same manifests as guard-pages)
+  // ==========================================================================
+  const { access, ...page } = result.data
+  const loaded = validatePageProps(page as PageDef)
+
+  return { ...loaded, partials: resolution.partials, contentLocale, access, contentPath }
+}
+
+/**
+ * Load the content-only page (cached): full page before publishing windows, drafts
+ * and access — for tooling that lists pages, never for serving visitors
+ */
+export async function loadPageContent(
+  event: H3Event,
+  params: LoadPageParams
+): Promise<BuiltPage | null> {
+  return getOrBuildPage(event, getPageCacheKey(params), () => buildPage(event, params))
+}
+
+/**
+ * Load a page definition from content (server-side)
+ *
+ * Features:
+ * - Uses serverQueryContent (NOT queryContent)
+ * - In-process LRU cache per kind/slug/locale (see page-cache.ts), cleared on
+ *   content changes in dev
+ * - Locale fallback chain (localeFallbacks, then defaultLocale); the locale served is
+ *   reported as contentLocale
+ * - Zod validation with detailed errors in DEV
+ * - Section + shell props validated against the manifests (parsed, defaults applied)
+ * - Schema migrations applied in memory (schemaVersion → PAGE_SCHEMA_VERSION)
+ * - Content kits expanded (kit + vars, placeholders substituted)
+ * - Content partials resolved ($ref, cycle detection, per-ref prop overrides)
+ * - Publishing windows: null outside page publishAt/unpublishAt, expired sections dropped
+ * - Drafts (`draft: true`): null unless the visitor has a draft preview session
+ * - Preview access (p/demo `access:`): signed ?t= token or password cookie required,
+ *   the block itself is never returned (see page-access.ts)
+ * - Shell slot validation (header.* in header, footer.* in footer)
+ * - Optional strict mode for p/demo (forces shells to null)
+ * - Returns null if not found, unpublished or draft (caller handles 404)
+ * - Props issues are RETURNED, not thrown (caller decides)
+ *
+ * @param event - H3 event
+ * @param params - { kind, slug, locale, token? }
+ * @returns { page, issues } or null
+ */
+export async function loadPage(event: H3Event, params: LoadPageParams): Promise<LoadedPage | null> {
+  const { kind, slug } = params
+  const isDev = process.env.NODE_ENV !== 'production'
+
+  const built = await loadPageContent(event, params)
+
+  // Not found
+  if (!built) {
+    return null
+  }
+
+  const { page, access, contentPath } = built
+
+  // ==========================================================================
+  // PUBLISHING WINDOWS: 404 outside the page window, drop sections outside theirs
+  // ==========================================================================
+  const now = new Date()
+
+  if (!isPublished(page, now)) {
+    if (isDev) {
+      console.warn(
+        `[loadPage] ${contentPath} is outside its publishing window (publishAt: ${page.publishAt ?? '—'}, unpublishAt: ${page.unpublishAt ?? '—'}) — serving 404`
+      )
+    }
+    return null
+  }
+
+  // Set for drafts in preview and protected pages: returned for the SSR HTML
+  let cacheControl: string | undefined
+
+  // ==========================================================================
+  // DRAFTS: 404 unless the visitor is in draft preview (?preview=<secret>)
+  // ==========================================================================
+  if (page.draft) {
+    if (!(await hasDraftPreview(event))) {
+      if (isDev) {
+        console.warn(
+          `[loadPage] ${contentPath} is a draft — serving 404 (open any page with ?preview=<NUXT_PREVIEW_SECRET> to preview drafts)`
+        )
+      }
+      return null
+    }
+    cacheControl = PRIVATE_PAGE_CACHE_CONTROL
+    setHeader(event, 'Cache-Control', cacheControl)
+  }
+
+  // ==========================================================================
+  // ACCESS: signed link / password for protected p/demo pages (throws 404/401/410)
+  // ==========================================================================
+  if (access) {
+    await checkPageAccess(event, { kind, slug }, access, params.token)
+    cacheControl = PRIVATE_PAGE_CACHE_CONTROL
+  }
+
+  // Drop sections outside their window (and their props issues, re-indexed)
+  const newIndex = new Map<number, number>()
+  const sections = page.sections.filter((section, index) => {
+    if (!isPublished(section, now)) return false
+    newIndex.set(index, newIndex.size)
+    return true
+  })
+  const issues = built.issues
+    .filter((issue) => issue.target !== 'section' || newIndex.has(issue.sectionIndex!))
+    .map((issue) =>
+      issue.target === 'section'
+        ? { ...issue, sectionIndex: newIndex.get(issue.sectionIndex!) }
+        : issue
+    )
+
+  if (isDev && issues.length > 0) {
+    console.error('[loadPage] Invalid props:', {
+      path: contentPath,
+      issues: issues.map(formatPropIssue)
+    })
+  }
+
+  return {
+    page: { ...page, sections },
+    issues,
+    partials: built.partials,
+    contentLocale: built.contentLocale,
+    ...(cacheControl && { cacheControl })
+  }
 }
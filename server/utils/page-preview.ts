@@ -0,0 +1,151 @@
+import { randomBytes } from 'node:crypto'
+import type { H3Event } from 'h3'
+import { buildContentPath } from '../../app/config/localePaths'
+import { localizePath } from '../../app/config/redirects'
+import { buildPageFromDocument, getRuntimeI18n, type PageDef } from './page-loader'
+import { requirePageWriteAccess, type PageFileTarget } from './page-write'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PagePreview {
+  id: string
+  /** Page path of the preview (e.g. /__preview/<id>, /en/__preview/<id>) */
+  path: string
+  expiresAt: string
+}
+
+interface StoredPreview {
+  page: PageDef
+  expiresAt: number
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Preview lifetime — long enough to share a link, short enough to stay a draft */
+export const PAGE_PREVIEW_TTL_MS = 30 * 60 * 1000
+
+/** Max previews kept (oldest dropped first) */
+const PAGE_PREVIEW_MAX_ENTRIES = 200
+
+/**
+ * Nitro storage mount of the previews (nuxt.config nitro.storage). In memory unless
+ * NUXT_PAGE_PREVIEW_STORAGE names a shared driver — required with several server
+ * instances (serverless), where the POST and the page view may hit different ones.
+ */
+const PAGE_PREVIEW_STORAGE = 'page-previews'
+
+/** Preview ids: 16 random bytes, base64url */
+const PAGE_PREVIEW_ID_PATTERN = /^[\w-]{22}$/
+
+/** Route of the preview page (app/pages/__preview/[id].vue) */
+const PAGE_PREVIEW_ROUTE = '/__preview'
+
+// =============================================================================
+// AUTH (dev, or the page write token)
+// =============================================================================
+
+/**
+ * Creating previews is open in dev; in production it needs the write API token
+ * (same rules as requirePageWriteAccess: 404 when not configured, 401 when wrong)
+ */
+export function requirePagePreviewAccess(event: H3Event): void {
+  if (process.env.NODE_ENV !== 'production') {
+    setHeader(event, 'Cache-Control', 'no-store')
+    return
+  }
+  requirePageWriteAccess(event)
+}
+
+// =============================================================================
+// STORE (Nitro storage, never written to content/)
+// =============================================================================
+
+function getPreviewStorage() {
+  return useStorage<StoredPreview>(PAGE_PREVIEW_STORAGE)
+}
+
+/**
+ * Drop expired previews, then the oldest ones so a new one fits in
+ * PAGE_PREVIEW_MAX_ENTRIES
+ * Drivers with native expiry (redis, vercel-kv) already dropped the expired ones;
+ * the memory driver ignores `ttl`.
+ */
+async function prunePreviews(now: number): Promise<void> {
+  const storage = getPreviewStorage()
+  const live: { id: string; expiresAt: number }[] = []
+
+  for (const id of await storage.getKeys()) {
+    const preview = await storage.getItem(id)
+    if (!preview || preview.expiresAt <= now) {
+      await storage.removeItem(id)
+    } else {
+      live.push({ id, expiresAt: preview.expiresAt })
+    }
+  }
+
+  // Same lifetime for every preview: earliest expiry = oldest
+  live.sort((a, b) => a.expiresAt - b.expiresAt)
+  for (const { id } of live.slice(0, Math.max(0, live.length - PAGE_PREVIEW_MAX_ENTRIES + 1))) {
+    await storage.removeItem(id)
+  }
+}
+
+/**
+ * Build an unsaved page (kit, partials, props parsed like loadPage) and keep it
+ * for PAGE_PREVIEW_TTL_MS (any server instance can serve it, see
+ * PAGE_PREVIEW_STORAGE). The page is always noindex.
+ *
+ * Run validatePageCandidate first: invalid definitions throw 500 here.
+ */
+export async function createPagePreview(
+  event: H3Event,
+  target: PageFileTarget,
+  candidate: Record<string, unknown>
+): Promise<PagePreview> {
+  const built = await buildPageFromDocument(
+    event,
+    { kind: target.kind, slug: target.slug },
+    {
+      doc: candidate,
+      contentLocale: target.locale,
+      contentPath: buildContentPath(target.kind, target.slug, target.locale)
+    }
+  )
+
+  const now = Date.now()
+  await prunePreviews(now)
+
+  const id = randomBytes(16).toString('base64url')
+  const expiresAt = now + PAGE_PREVIEW_TTL_MS
+  await getPreviewStorage().setItem(
+    id,
+    { page: { ...built.page, seo: { ...built.page.seo, noindex: true } }, expiresAt },
+    { ttl: PAGE_PREVIEW_TTL_MS / 1000 }
+  )
+
+  return {
+    id,
+    path: localizePath(`${PAGE_PREVIEW_ROUTE}/${id}`, target.locale, getRuntimeI18n(event)),
+    expiresAt: new Date(expiresAt).toISOString()
+  }
+}
+
+/**
+ * Get a stored preview (null if unknown or expired)
+ */
+export async function getPagePreview(id: string): Promise<PageDef | null> {
+  if (!PAGE_PREVIEW_ID_PATTERN.test(id)) return null
+
+  const storage = getPreviewStorage()
+  const preview = await storage.getItem(id)
+  if (!preview) return null
+  if (preview.expiresAt <= Date.now()) {
+    await storage.removeItem(id)
+    return null
+  }
+  return preview.page
+}
@@ -0,0 +1,403 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import type { H3Event } from 'h3'
+import { Document, isMap, isScalar, isSeq, parse as parseYaml, type Node } from 'yaml'
+import { matchLocale } from '../../app/config/localePaths'
+import { PageAliasSchema } from '../../app/config/redirects'
+import { safeEqual } from '../../app/schema/page.access'
+// Same checks as guard-pages (script-safe validation core)
+import {
+  validatePageDefinition,
+  type PageCandidate,
+  type PageValidationResult
+} from '../../app/schema/page.validate'
+import {
+  getRuntimeI18n,
+  getShellStrictPrivate,
+  loadKitDoc,
+  loadPartialDoc,
+  type PageKind
+} from './page-loader'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PageFileTarget {
+  kind: PageKind
+  slug: string
+  locale: string
+}
+
+export interface PageFile {
+  /** Absolute path of the YAML file */
+  filePath: string
+  /** Path relative to the working directory (e.g. content/fr/pages/site/about.yaml) */
+  path: string
+  /** Current content, null if the file does not exist */
+  content: string | null
+  /** Content hash (If-Match), null if the file does not exist */
+  hash: string | null
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Source content directory (the server runs from the repository root) */
+const CONTENT_DIR = join(process.cwd(), 'content')
+
+/**
+ * Canonical key order (other keys follow, sorted) — same layout as hand-written pages
+ */
+const PAGE_KEY_ORDER = [
+  'kind',
+  'schemaVersion',
+  'kit',
+  'vars',
+  'slug',
+  'aliases',
+  'draft',
+  'publishAt',
+  'unpublishAt',
+  'access',
+  'seo',
+  'packKey',
+  'themeOverrides',
+  'shell',
+  'sections'
+]
+const SEO_KEY_ORDER = ['title', 'description', 'image', 'noindex']
+const SHELL_KEY_ORDER = ['header', 'footer']
+const COMPONENT_KEY_ORDER = [
+  '$ref',
+  'id',
+  'pack',
+  'experiment',
+  'variants',
+  'key',
+  'weight',
+  'publishAt',
+  'unpublishAt',
+  'props',
+  'overrides'
+]
+
+// =============================================================================
+// AUTH (disabled unless NUXT_PAGE_WRITE_TOKEN is set)
+// =============================================================================
+
+/**
+ * Require `Authorization: Bearer <NUXT_PAGE_WRITE_TOKEN>`
+ * - 404 when no token is configured (the API does not exist)
+ * - 401 when the header is missing or wrong
+ */
+export function requirePageWriteAccess(event: H3Event): void {
+  const config = useRuntimeConfig(event)
+  const token = (config.pageWriteToken as string) || ''
+
+  if (!token) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Page write API is disabled (NUXT_PAGE_WRITE_TOKEN is not set)'
+    })
+  }
+
+  const header = getRequestHeader(event, 'authorization') ?? ''
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  if (!match || !safeEqual(match[1]!.trim(), token)) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Invalid or missing page write token'
+    })
+  }
+
+  setHeader(event, 'Cache-Control', 'no-store')
+}
+
+// =============================================================================
+// TARGET + FILES
+// =============================================================================
+
+/**
+ * Read kind/slug/locale from the query (400 if invalid)
+ * Slugs follow the alias rules: lowercase, digits, dashes, "/" for nesting
+ */
+export function getPageFileTarget(event: H3Event): PageFileTarget {
+  const query = getQuery(event)
+  const kind = query.kind as PageKind | undefined
+  const slug = query.slug as string | undefined
+  const locale = query.locale as string | undefined
+
+  if (!kind || !['site', 'p', 'demo'].includes(kind)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing or invalid "kind" parameter'
+    })
+  }
+
+  if (!slug || !PageAliasSchema.safeParse(slug).success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing or invalid "slug" parameter (lowercase, digits, dashes, "/")'
+    })
+  }
+
+  // Configured code (fr-CA also accepted as fr-ca): names the content directory
+  const configuredLocale = matchLocale(locale, getRuntimeI18n(event).locales)
+  if (!configuredLocale) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Missing or unknown "locale" parameter'
+    })
+  }
+
+  return { kind, slug, locale: configuredLocale }
+}
+
+/**
+ * Content hash of a page file (sha256, hex) — the ETag / If-Match value
+ */
+export function getContentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Locate a page file (an existing .yml is kept, new files are .yaml)
+ */
+export async function readPageFile(target: PageFileTarget): Promise<PageFile> {
+  const base = join(CONTENT_DIR, target.locale, 'pages', target.kind, target.slug)
+
+  for (const ext of ['yaml', 'yml']) {
+    const filePath = `${base}.${ext}`
+    try {
+      const content = await readFile(filePath, 'utf-8')
+      return {
+        filePath,
+        path: relative(process.cwd(), filePath),
+        content,
+        hash: getContentHash(content)
+      }
+    } catch {
+      continue
+    }
+  }
+
+  const filePath = `${base}.yaml`
+  return { filePath, path: relative(process.cwd(), filePath), content: null, hash: null }
+}
+
+/**
+ * Parse a page file's YAML (for GET)
+ */
+export function parsePageFile(file: PageFile): unknown {
+  return file.content === null ? null : parseYaml(file.content)
+}
+
+// =============================================================================
+// OPTIMISTIC CONCURRENCY (If-Match: "<content hash>")
+// =============================================================================
+
+/**
+ * Check If-Match against the current file hash
+ * - 428 if the header is missing (updates must say what they replace)
+ * - 412 if the file changed since it was read (data.hash = current hash)
+ */
+export function checkIfMatch(event: H3Event, file: PageFile): void {
+  const header = getRequestHeader(event, 'if-match')
+
+  if (!header) {
+    throw createError({
+      statusCode: 428,
+      statusMessage: 'If-Match header required (content hash from GET /api/__page__)'
+    })
+  }
+
+  const expected = header.trim().replace(/^W\//, '').replace(/^"|"$/g, '')
+  if (expected !== file.hash) {
+    throw createError({
+      statusCode: 412,
+      statusMessage: 'Page changed since it was read — reload it and retry',
+      data: { hash: file.hash }
+    })
+  }
+}
+
+// Writes to the same file run one after another (check + write must not interleave)
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Run `task` with exclusive access to a file (within this process)
+ */
+export async function withPageFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) ?? Promise.resolve()
+  const run = previous.catch(() => {}).then(task)
+  fileLocks.set(filePath, run)
+  try {
+    return await run
+  } finally {
+    if (fileLocks.get(filePath) === run) fileLocks.delete(filePath)
+  }
+}
+
+// =============================================================================
+// VALIDATION (same core as guard-pages)
+// =============================================================================
+
+/**
+ * Run the per-page checks on a candidate page for a target file (never throws
+ * on invalid pages — the result lists the issues)
+ *
+ * Cross-page checks (i18n coverage, redirect chains/collisions) stay in guard-pages.
+ */
+export async function runPageValidation(
+  event: H3Event,
+  target: PageFileTarget,
+  candidate: unknown
+): Promise<PageValidationResult> {
+  if (candidate === null || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Request body must be a page definition (object)'
+    })
+  }
+
+  return validatePageDefinition(
+    candidate as PageCandidate,
+    { kind: target.kind, slug: target.slug },
+    {
+      loadKit: (id) => loadKitDoc(event, id),
+      loadPartial: (ref) => loadPartialDoc(event, ref, target.locale)
+    },
+    { shellStrictPrivate: getShellStrictPrivate(event) }
+  )
+}
+
+/**
+ * Validate a candidate page before writing it
+ * 422 with data { issues } when it would fail pnpm guard:pages
+ */
+export async function validatePageCandidate(
+  event: H3Event,
+  target: PageFileTarget,
+  candidate: unknown
+): Promise<PageValidationResult> {
+  const result = await runPageValidation(event, target, candidate)
+
+  if (result.errors.length > 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: `Invalid page: ${result.errors.join(', ')}`,
+      data: { issues: result.issues }
+    })
+  }
+
+  return result
+}
+
+// =============================================================================
+// YAML OUTPUT (stable key order, blank lines like hand-written pages)
+// =============================================================================
+
+function orderKeys(value: Record<string, unknown>, order: string[]): Record<string, unknown> {
+  const known = order.filter((key) => key in value)
+  const rest = Object.keys(value)
+    .filter((key) => !order.includes(key))
+    .sort()
+  return Object.fromEntries([...known, ...rest].map((key) => [key, value[key]]))
+}
+
+/**
+ * Sort keys deeply: canonical order for page structure, alphabetical elsewhere
+ */
+function sortDeep(value: unknown, order: string[] = []): unknown {
+  if (Array.isArray(value)) return value.map((item) => sortDeep(item, order))
+  if (value === null || typeof value !== 'object') return value
+
+  const ordered = orderKeys(value as Record<string, unknown>, order)
+  for (const [key, child] of Object.entries(ordered)) {
+    ordered[key] = sortDeep(child, [])
+  }
+  return ordered
+}
+
+function sortPage(page: Record<string, unknown>): Record<string, unknown> {
+  const sorted = sortDeep(page, PAGE_KEY_ORDER) as Record<string, unknown>
+
+  if (page.seo && typeof page.seo === 'object') {
+    sorted.seo = sortDeep(page.seo, SEO_KEY_ORDER)
+  }
+  if (page.shell && typeof page.shell === 'object') {
+    const shell = page.shell as Record<string, unknown>
+    sorted.shell = orderKeys(
+      Object.fromEntries(
+        Object.entries(shell).map(([slot, component]) => [
+          slot,
+          sortDeep(component, COMPONENT_KEY_ORDER)
+        ])
+      ),
+      SHELL_KEY_ORDER
+    )
+  }
+  if (Array.isArray(page.sections)) {
+    sorted.sections = page.sections.map((section) => {
+      const ordered = sortDeep(section, COMPONENT_KEY_ORDER) as Record<string, unknown>
+      if (section && Array.isArray((section as Record<string, unknown>).variants)) {
+        ordered.variants = ((section as Record<string, unknown>).variants as unknown[]).map(
+          (variant) => sortDeep(variant, COMPONENT_KEY_ORDER)
+        )
+      }
+      return ordered
+    })
+  }
+  return sorted
+}
+
+/**
+ * Serialize a page to YAML (same input → same bytes)
+ */
+export function stringifyPage(page: Record<string, unknown>): string {
+  const doc = new Document(sortPage(page))
+
+  // Blank line before each top-level block (after kind/schemaVersion) and section
+  if (isMap(doc.contents)) {
+    doc.contents.items.forEach((pair, index) => {
+      const key = pair.key as Node
+      if (isScalar(key) && index > 0 && key.value !== 'schemaVersion') {
+        key.spaceBefore = true
+      }
+      if (isScalar(key) && key.value === 'sections' && isSeq(pair.value)) {
+        pair.value.items.forEach((item, i) => {
+          if (i > 0) (item as Node).spaceBefore = true
+        })
+      }
+    })
+  }
+
+  // lineWidth 0: never fold long strings into new line breaks
+  return doc.toString({ lineWidth: 0 })
+}
+
+// =============================================================================
+// ATOMIC WRITES
+// =============================================================================
+
+/**
+ * Write a file atomically (temp file + rename: readers never see a partial file)
+ */
+export async function writePageFile(filePath: string, content: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`
+  try {
+    await writeFile(tempPath, content, 'utf-8')
+    await rename(tempPath, filePath)
+  } catch (error) {
+    await unlink(tempPath).catch(() => {})
+    throw error
+  }
+}
+
+export async function deletePageFile(filePath: string): Promise<void> {
+  await unlink(filePath)
+}
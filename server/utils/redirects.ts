@@ -0,0 +1,114 @@
+import { serverQueryContent } from '#content/server'
+import type { H3Event } from 'h3'
+// Redirect table logic (script-safe, shared with guard-pages)
+import {
+  PageAliasSchema,
+  RedirectsFileSchema,
+  buildRedirectTable,
+  resolveRedirect,
+  type RedirectPage,
+  type RedirectRule,
+  type RedirectTarget
+} from '../../app/config/redirects'
+import { parseContentPath } from '../../app/config/localePaths'
+import { getRuntimeI18n } from './page-loader'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PageContentDocument {
+  _path?: string
+  aliases?: unknown
+}
+
+// =============================================================================
+// CACHE (process-level, TTL-based)
+// =============================================================================
+
+// Content is static in production; a short TTL keeps dev edits visible
+const CACHE_TTL = 60 * 1000 // 1 minute
+
+let cache: {
+  at: number
+  key: string
+  redirects: Map<string, RedirectTarget>
+} | null = null
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Keep valid aliases only (guard-pages reports the invalid ones)
+ */
+function parseAliases(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((alias) => PageAliasSchema.safeParse(alias).success)
+}
+
+// =============================================================================
+// REDIRECT LOOKUP
+// =============================================================================
+
+/**
+ * Build (or reuse) the redirect table from page aliases + content/redirects.yaml
+ * Cached for CACHE_TTL (1 minute)
+ */
+export async function getRedirectTable(event: H3Event): Promise<Map<string, RedirectTarget>> {
+  const i18n = getRuntimeI18n(event)
+  const cacheKey = JSON.stringify({ defaultLocale: i18n.defaultLocale, locales: i18n.locales })
+
+  if (cache && cache.key === cacheKey && Date.now() - cache.at < CACHE_TTL) {
+    return cache.redirects
+  }
+
+  const pages: RedirectPage[] = []
+  let rules: RedirectRule[] = []
+
+  try {
+    const documents = (await serverQueryContent(event)
+      .only(['_path', 'aliases'])
+      .find()) as PageContentDocument[]
+
+    for (const doc of documents) {
+      const page = doc._path ? parseContentPath(doc._path, i18n.locales) : null
+      if (page) pages.push({ ...page, aliases: parseAliases(doc.aliases) })
+    }
+
+    const redirectsDoc = await serverQueryContent(event).where({ _path: '/redirects' }).findOne()
+    if (redirectsDoc) {
+      const parsed = RedirectsFileSchema.safeParse(redirectsDoc)
+      if (parsed.success) {
+        rules = parsed.data.redirects
+      } else {
+        // Invalid file must not take the site down — guard-pages reports details
+        console.error(
+          '[redirects] Invalid content/redirects.yaml, rules ignored:',
+          parsed.error.issues
+        )
+      }
+    }
+  } catch (error) {
+    console.warn('[redirects] Content query failed:', error)
+  }
+
+  const { redirects } = buildRedirectTable(pages, rules, {
+    defaultLocale: i18n.defaultLocale,
+    locales: i18n.locales
+  })
+
+  cache = { at: Date.now(), key: cacheKey, redirects }
+  return redirects
+}
+
+/**
+ * Find the redirect for a request path (chains flattened to the final target)
+ *
+ * @returns Target or null if the path is not redirected
+ */
+export async function findRedirect(event: H3Event, path: string): Promise<RedirectTarget | null> {
+  const redirects = await getRedirectTable(event)
+  if (redirects.size === 0) return null
+  return resolveRedirect(redirects, path)
+}
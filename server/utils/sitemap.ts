@@ -1,23 +1,84 @@
 import { serverQueryContent } from '#content/server'
 import type { H3Event } from 'h3'
-import { isSitemapKind, type PageKind, SCALE_THRESHOLDS } from '../../app/config/pagePolicy'
+import { parseBlogContentPath, parseContentPath } from '../../app/config/localePaths'
+import { SCALE_THRESHOLDS, isSitemapKind } from '../../app/config/pagePolicy'
+import { getPageUrlPath } from '../../app/config/redirects'
+import { getNextPublishBoundary, isPublished } from '../../app/schema/page.schedule'
+import { getPageImages, type PageImage } from '../../app/schema/page.images'
+import { getSectionManifestEntry } from '../../app/sections/sections.manifest'
+import { zodToShape, type SchemaShape } from '../../app/utils/zodShape'
+import { getContentUpdatedAt } from './content-timestamps'
+import { buildPageFromDocument } from './page-loader'
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+/** Child sitemaps are split by type (site pages, blog) */
+export type SitemapType = 'site' | 'blog'
+
+/**
+ * <image:image> of a URL (image sitemap extension)
+ */
+export interface SitemapImage {
+  loc: string
+  /** Localized title of the page */
+  title?: string
+  /** Alt text */
+  caption?: string
+}
+
 export interface SitemapEntry {
   loc: string
   lastmod?: string
   alternates?: Array<{ hreflang: string; href: string }>
+  images?: SitemapImage[]
+  type: SitemapType
+  locale: string
+}
+
+/**
+ * Child sitemaps: by type (site-1, blog-1), or by locale + type (fr-site-1, en-blog-1)
+ */
+export type SitemapGroupBy = 'type' | 'locale'
+
+export interface SitemapOptions {
+  /** /sitemap.xml becomes a sitemap index above this, and children hold at most this */
+  maxUrls: number
+  groupBy: SitemapGroupBy
+}
+
+/**
+ * One child sitemap (/sitemaps/<name>.xml)
+ */
+export interface SitemapChild {
+  /** e.g. site-1, blog-2, en-site-1 */
+  name: string
+  entries: SitemapEntry[]
+  /** Latest lastmod of its entries */
+  lastmod?: string
+}
+
+export interface SitemapPlan {
+  /** true: /sitemap.xml is a sitemapindex of `children`; false: a single urlset */
+  index: boolean
+  children: SitemapChild[]
 }
 
 interface ContentDocument {
   _path?: string
   _locale?: string
+  /** Blog: title, cover image and its alt text */
+  title?: string
+  cover?: string
+  coverAlt?: string
   date?: string
   updated?: string
+  /** Page builder pages (PageDef.updatedAt) */
+  updatedAt?: string
   draft?: boolean
+  publishAt?: string
+  unpublishAt?: string
   seo?: {
     noindex?: boolean
   }
@@ -31,10 +92,31 @@ const CACHE_TTL = 10 * 60 * 1000 // 10 minutes
 
 let cache: {
   at: number
+  /** at + CACHE_TTL, or earlier if a publishing window opens/closes before */
+  expiresAt: number
   key: string
   entries: SitemapEntry[]
 } | null = null
 
+// =============================================================================
+// CONSTANTS (sitemaps.org protocol limits, per file)
+// =============================================================================
+
+export const SITEMAP_PROTOCOL_MAX_URLS = 50_000
+export const SITEMAP_PROTOCOL_MAX_BYTES = 50 * 1024 * 1024
+
+/** Route of the child sitemaps (server/routes/sitemaps/[file].ts) */
+export const SITEMAP_CHILD_ROUTE = '/sitemaps'
+
+/** Image sitemap extension limit, per URL */
+export const SITEMAP_MAX_IMAGES_PER_URL = 1000
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n'
+const URLSET_OPEN =
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">\n'
+const URLSET_CLOSE = '</urlset>'
+const URLSET_ENVELOPE_BYTES = Buffer.byteLength(XML_DECLARATION + URLSET_OPEN + URLSET_CLOSE)
+
 // =============================================================================
 // HELPERS
 // =============================================================================
@@ -130,29 +212,126 @@ export function buildAlternates(
  * Check if a content path is for an indexable page kind
  * Uses centralized PAGE_POLICY
  *
- * Path format: /{locale}/pages/{kind}/{slug}
+ * Path format: /{locale}/pages/{kind}/{slug...} (home page included)
  */
-function isIndexablePage(path: string): boolean {
-  // Extract kind from path: /{locale}/pages/{kind}/{slug}
-  const kindMatch = path.match(/^\/\w{2}\/pages\/(\w+)\//)
-  if (!kindMatch) return false
-
-  const kind = kindMatch[1] as PageKind
-  return isSitemapKind(kind)
+function isIndexablePage(path: string, locales: string[]): boolean {
+  const parsed = parseContentPath(path, locales)
+  return parsed !== null && isSitemapKind(parsed.kind)
 }
 
 /**
  * Check if a page should be excluded from sitemap
  * - Drafts are excluded
  * - Pages with noindex: true are excluded
+ * - Pages outside their publishAt/unpublishAt window are excluded
  * - p and demo pages are excluded (never reach here due to path filtering)
  */
-function shouldExcludeFromSitemap(doc: ContentDocument): boolean {
+function shouldExcludeFromSitemap(doc: ContentDocument, now: Date): boolean {
   if (doc.draft === true) return true
   if (doc.seo?.noindex === true) return true
+  if (!isPublished(doc, now)) return true
   return false
 }
 
+// =============================================================================
+// IMAGES (section props marked in the schemas, blog covers)
+// =============================================================================
+
+/**
+ * Hosts allowed besides the site's own (NUXT_SITEMAP_IMAGE_HOSTS, comma-separated,
+ * subdomains included). Empty: every image is listed.
+ */
+function getImageHosts(event: H3Event): string[] {
+  const hosts = useRuntimeConfig(event).sitemapImageHosts
+  return String(hosts ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function isAllowedImageHost(host: string, siteHost: string, imageHosts: string[]): boolean {
+  if (imageHosts.length === 0 || host === siteHost) return true
+  return imageHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))
+}
+
+/**
+ * Absolute, allowed image entries (site-relative URLs resolved against siteUrl)
+ */
+function toSitemapImages(
+  images: PageImage[],
+  title: string | undefined,
+  siteUrl: string,
+  imageHosts: string[]
+): SitemapImage[] | undefined {
+  const siteHost = new URL(siteUrl).hostname
+  const result: SitemapImage[] = []
+
+  for (const image of images) {
+    let url: URL
+    try {
+      url = new URL(image.url, siteUrl)
+    } catch {
+      continue
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') continue
+    if (!isAllowedImageHost(url.hostname, siteHost, imageHosts)) continue
+
+    result.push({
+      loc: url.href,
+      ...(title && { title }),
+      ...(image.alt && { caption: image.alt })
+    })
+    if (result.length === SITEMAP_MAX_IMAGES_PER_URL) break
+  }
+
+  return result.length > 0 ? result : undefined
+}
+
+// Props shapes of the sections (schemas do not change at runtime)
+const sectionShapes = new Map<string, SchemaShape | undefined>()
+
+function getSectionShape(id: string): SchemaShape | undefined {
+  if (!sectionShapes.has(id)) {
+    const entry = getSectionManifestEntry(id)
+    sectionShapes.set(id, entry ? zodToShape(entry.schema) : undefined)
+  }
+  return sectionShapes.get(id)
+}
+
+/**
+ * Images of a site page, from its sections built out of the queried document
+ * (kits and partials resolved) — with the page's localized title
+ *
+ * Built with buildPageFromDocument, not loadPageContent: a sitemap walks every
+ * page and would evict the visitors' pages from the page cache (LRU). The sitemap
+ * cache keeps the result instead.
+ */
+async function getSitePageImages(
+  event: H3Event,
+  page: ContentDocument,
+  params: { slug: string; locale: string },
+  now: Date
+): Promise<{ title?: string; images: PageImage[] }> {
+  try {
+    const built = await buildPageFromDocument(
+      event,
+      { kind: 'site', slug: params.slug },
+      {
+        doc: page as Record<string, unknown>,
+        contentLocale: params.locale,
+        contentPath: page._path!
+      }
+    )
+    return {
+      title: built.page.seo.title,
+      images: getPageImages(built.page.sections, getSectionShape, now)
+    }
+  } catch {
+    // Invalid page (500 for visitors): listed without images
+    return { images: [] }
+  }
+}
+
 // =============================================================================
 // MAIN SITEMAP GENERATOR
 // =============================================================================
@@ -160,7 +339,7 @@ function shouldExcludeFromSitemap(doc: ContentDocument): boolean {
 /**
  * Get all sitemap entries from static pages, site pages, and blog content
  * Uses runtimeConfig as single source of truth
- * Cached for CACHE_TTL (10 minutes)
+ * Cached for CACHE_TTL (10 minutes), or until the next publishing window boundary
  */
 export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]> {
   // Read from runtimeConfig (single source of truth)
@@ -175,17 +354,19 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
 
   // Normalize locales: guarantee defaultLocale is always included
   const normalizedLocales = uniq([defaultLocale, ...configLocales])
+  const imageHosts = getImageHosts(event)
 
   // Cache key based on config (invalidate if config changes)
   const cacheKey = JSON.stringify({
     siteUrl,
     defaultLocale,
     locales: normalizedLocales,
-    localeMeta
+    localeMeta,
+    imageHosts
   })
 
   // Return cached entries if valid
-  if (cache && cache.key === cacheKey && Date.now() - cache.at < CACHE_TTL) {
+  if (cache && cache.key === cacheKey && Date.now() < cache.expiresAt) {
     return cache.entries
   }
 
@@ -193,17 +374,21 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
   // Generate entries
   // ---------------------------------------------------------------------------
   const entries: SitemapEntry[] = []
+  const now = new Date()
+  let nextPublishBoundary: number | null = null
 
   // ---------------------------------------------------------------------------
-  // Static pages
+  // Static pages (the home page is a site page: listed from content, where translated)
   // ---------------------------------------------------------------------------
-  const staticPages = ['/', '/blog']
+  const staticPages: Array<{ page: string; type: SitemapType }> = [{ page: '/blog', type: 'blog' }]
 
-  for (const page of staticPages) {
+  for (const { page, type } of staticPages) {
     // Default locale version (no prefix)
     entries.push({
       loc: toAbsoluteUrl(siteUrl, page),
-      alternates: buildAlternates(page, siteUrl, normalizedLocales, localeMeta, defaultLocale)
+      alternates: buildAlternates(page, siteUrl, normalizedLocales, localeMeta, defaultLocale),
+      type,
+      locale: defaultLocale
     })
 
     // Non-default locale versions
@@ -224,7 +409,9 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
             normalizedLocales,
             localeMeta,
             defaultLocale
-          )
+          ),
+          type,
+          locale: code
         })
       }
     }
@@ -239,12 +426,16 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
       .find()
 
     const documents = queried as ContentDocument[]
+    nextPublishBoundary = getNextPublishBoundary(documents, now)
 
     // ---------------------------------------------------------------------------
     // Site pages (indexable kinds only, via PAGE_POLICY)
     // ---------------------------------------------------------------------------
     const sitePages = documents.filter(
-      (doc) => doc._path && isIndexablePage(doc._path) && !shouldExcludeFromSitemap(doc)
+      (doc) =>
+        doc._path &&
+        isIndexablePage(doc._path, normalizedLocales) &&
+        !shouldExcludeFromSitemap(doc, now)
     )
 
     // Group site pages by slug to find translations
@@ -253,12 +444,11 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
     for (const page of sitePages) {
       if (!page._path) continue
 
-      // page._path is like /fr/pages/site/about or /en/pages/site/about
-      const pathMatch = page._path.match(/^\/(\w{2})\/pages\/site\/(.+)$/)
-      if (!pathMatch) continue
+      // page._path is like /fr/pages/site/about or /fr-ca/pages/site/services/paris
+      const parsed = parseContentPath(page._path, normalizedLocales)
+      if (!parsed || parsed.kind !== 'site') continue
 
-      const slug = pathMatch[2]
-      if (!slug) continue
+      const { slug } = parsed
       if (!sitePagesBySlug.has(slug)) {
         sitePagesBySlug.set(slug, [])
       }
@@ -270,19 +460,19 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
       for (const page of translations) {
         if (!page._path) continue
 
-        const pathMatch = page._path.match(/^\/(\w{2})\/pages\/site\/(.+)$/)
-        if (!pathMatch) continue
-
-        const [, pageLocale] = pathMatch
-        // Site pages are served at /:slug (not /pages/site/:slug)
-        const urlPath = pageLocale === defaultLocale ? `/${slug}` : `/${pageLocale}/${slug}`
+        const pageLocale = parseContentPath(page._path, normalizedLocales)!.locale
+        // Site pages are served at /:slug (not /pages/site/:slug), home at /
+        const urlCtx = { defaultLocale, locales: normalizedLocales }
+        const urlPath = getPageUrlPath('site', slug, pageLocale, urlCtx)
 
         // Build alternates only for translations that exist
         const pageAlternates: Array<{ hreflang: string; href: string }> = []
 
         for (const code of normalizedLocales) {
-          const translationPath = code === defaultLocale ? `/${slug}` : `/${code}/${slug}`
-          const hasTranslation = translations.some((t) => t._path?.startsWith(`/${code}/`))
+          const translationPath = getPageUrlPath('site', slug, code, urlCtx)
+          const hasTranslation = translations.some(
+            (t) => parseContentPath(t._path!, normalizedLocales)?.locale === code
+          )
 
           if (hasTranslation) {
             pageAlternates.push({
@@ -293,19 +483,32 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
         }
 
         // x-default points to default locale if it exists
-        const hasDefaultTranslation = translations.some((t) =>
-          t._path?.startsWith(`/${defaultLocale}/`)
+        const hasDefaultTranslation = translations.some(
+          (t) => parseContentPath(t._path!, normalizedLocales)?.locale === defaultLocale
         )
         if (hasDefaultTranslation) {
           pageAlternates.push({
             hreflang: 'x-default',
-            href: toAbsoluteUrl(siteUrl, `/${slug}`)
+            href: toAbsoluteUrl(siteUrl, getPageUrlPath('site', slug, defaultLocale, urlCtx))
           })
         }
 
+        // Image props of the sections (marked in the section schemas)
+        const { title, images } = await getSitePageImages(
+          event,
+          page,
+          { slug, locale: pageLocale },
+          now
+        )
+
         entries.push({
           loc: toAbsoluteUrl(siteUrl, urlPath),
-          alternates: pageAlternates.length > 0 ? pageAlternates : undefined
+          // Declared updatedAt, else last commit / mtime of the page file
+          lastmod: getContentUpdatedAt(page._path, page.updatedAt),
+          alternates: pageAlternates.length > 0 ? pageAlternates : undefined,
+          images: toSitemapImages(images, title, siteUrl, imageHosts),
+          type: 'site',
+          locale: pageLocale
         })
       }
     }
@@ -314,7 +517,7 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
     // Blog articles from Nuxt Content
     // ---------------------------------------------------------------------------
     const blogArticles = documents.filter(
-      (doc) => doc._path && doc._path.includes('/blog/') && !shouldExcludeFromSitemap(doc)
+      (doc) => doc._path && doc._path.includes('/blog/') && !shouldExcludeFromSitemap(doc, now)
     )
 
     // Group articles by slug to find translations
@@ -323,12 +526,11 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
     for (const article of blogArticles) {
       if (!article._path) continue
 
-      // article._path is like /fr/blog/hello-world or /en/blog/hello-world
-      const pathMatch = article._path.match(/^\/(\w{2})\/blog\/(.+)$/)
-      if (!pathMatch) continue
+      // article._path is like /fr/blog/hello-world or /fr-ca/blog/hello-world
+      const parsed = parseBlogContentPath(article._path, normalizedLocales)
+      if (!parsed) continue
 
-      const slug = pathMatch[2]
-      if (!slug) continue
+      const { slug } = parsed
       if (!articlesBySlug.has(slug)) {
         articlesBySlug.set(slug, [])
       }
@@ -340,10 +542,7 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
       for (const article of translations) {
         if (!article._path) continue
 
-        const pathMatch = article._path.match(/^\/(\w{2})\/blog\/(.+)$/)
-        if (!pathMatch) continue
-
-        const [, articleLocale] = pathMatch
+        const articleLocale = parseBlogContentPath(article._path, normalizedLocales)!.locale
         const urlPath =
           articleLocale === defaultLocale ? `/blog/${slug}` : `/${articleLocale}/blog/${slug}`
 
@@ -352,7 +551,9 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
 
         for (const code of normalizedLocales) {
           const translationPath = code === defaultLocale ? `/blog/${slug}` : `/${code}/blog/${slug}`
-          const hasTranslation = translations.some((t) => t._path?.startsWith(`/${code}/`))
+          const hasTranslation = translations.some(
+            (t) => parseBlogContentPath(t._path!, normalizedLocales)?.locale === code
+          )
 
           if (hasTranslation) {
             articleAlternates.push({
@@ -363,8 +564,8 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
         }
 
         // x-default points to default locale if it exists
-        const hasDefaultTranslation = translations.some((t) =>
-          t._path?.startsWith(`/${defaultLocale}/`)
+        const hasDefaultTranslation = translations.some(
+          (t) => parseBlogContentPath(t._path!, normalizedLocales)?.locale === defaultLocale
         )
         if (hasDefaultTranslation) {
           articleAlternates.push({
@@ -375,8 +576,18 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
 
         entries.push({
           loc: toAbsoluteUrl(siteUrl, urlPath),
-          lastmod: article.updated || article.date,
-          alternates: articleAlternates.length > 0 ? articleAlternates : undefined
+          lastmod: article.updated || article.date || getContentUpdatedAt(article._path),
+          alternates: articleAlternates.length > 0 ? articleAlternates : undefined,
+          images: article.cover
+            ? toSitemapImages(
+                [{ url: article.cover, alt: article.coverAlt }],
+                article.title,
+                siteUrl,
+                imageHosts
+              )
+            : undefined,
+          type: 'blog',
+          locale: articleLocale
         })
       }
     }
@@ -390,22 +601,173 @@ export async function getSitemapEntries(event: H3Event): Promise<SitemapEntry[]>
   // ---------------------------------------------------------------------------
   entries.sort((a, b) => a.loc.localeCompare(b.loc))
 
-  // ---------------------------------------------------------------------------
-  // SCALE WARNING (dev/server-side only)
-  // ---------------------------------------------------------------------------
-  if (entries.length > SCALE_THRESHOLDS.SITEMAP_WARNING) {
-    console.warn(
-      `[sitemap] ⚠️ SCALE WARNING: ${entries.length} entries exceeds threshold (${SCALE_THRESHOLDS.SITEMAP_WARNING}). ` +
-        `Consider pagination or sitemap index.`
-    )
-  }
-
   // Store in cache
+  const at = Date.now()
   cache = {
-    at: Date.now(),
+    at,
+    expiresAt: Math.min(at + CACHE_TTL, nextPublishBoundary ?? Infinity),
     key: cacheKey,
     entries
   }
 
   return entries
 }
+
+// =============================================================================
+// SITEMAP INDEX (paginated child sitemaps)
+// =============================================================================
+
+/**
+ * Index options from runtimeConfig (NUXT_SITEMAP_MAX_URLS, NUXT_SITEMAP_GROUP_BY),
+ * maxUrls capped to the protocol limit (invalid: SCALE_THRESHOLDS.SITEMAP_MAX_URLS)
+ */
+export function getSitemapOptions(event: H3Event): SitemapOptions {
+  const config = useRuntimeConfig(event)
+  const maxUrls = Math.floor(Number(config.sitemapMaxUrls))
+  return {
+    maxUrls:
+      Number.isFinite(maxUrls) && maxUrls > 0
+        ? Math.min(maxUrls, SITEMAP_PROTOCOL_MAX_URLS)
+        : SCALE_THRESHOLDS.SITEMAP_MAX_URLS,
+    groupBy: config.sitemapGroupBy === 'locale' ? 'locale' : 'type'
+  }
+}
+
+/**
+ * Sitemap dates are days (YYYY-MM-DD)
+ */
+function formatLastmod(lastmod: string): string {
+  return new Date(lastmod).toISOString().split('T')[0]!
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function renderUrl(entry: SitemapEntry): string {
+  let xml = '  <url>\n'
+  xml += `    <loc>${escapeXml(entry.loc)}</loc>\n`
+
+  if (entry.lastmod) {
+    xml += `    <lastmod>${formatLastmod(entry.lastmod)}</lastmod>\n`
+  }
+
+  // Add xhtml:link alternates for hreflang
+  for (const alt of entry.alternates ?? []) {
+    xml += `    <xhtml:link rel="alternate" hreflang="${escapeXml(alt.hreflang)}" href="${escapeXml(alt.href)}"/>\n`
+  }
+
+  for (const image of entry.images ?? []) {
+    xml += '    <image:image>\n'
+    xml += `      <image:loc>${escapeXml(image.loc)}</image:loc>\n`
+    if (image.title) xml += `      <image:title>${escapeXml(image.title)}</image:title>\n`
+    if (image.caption) xml += `      <image:caption>${escapeXml(image.caption)}</image:caption>\n`
+    xml += '    </image:image>\n'
+  }
+
+  xml += '  </url>\n'
+  return xml
+}
+
+/**
+ * <urlset> with xhtml (alternates) and image namespaces
+ */
+export function renderUrlset(entries: SitemapEntry[]): string {
+  return XML_DECLARATION + URLSET_OPEN + entries.map(renderUrl).join('') + URLSET_CLOSE
+}
+
+/**
+ * <sitemapindex> pointing to /sitemaps/<name>.xml
+ */
+export function renderSitemapIndex(siteUrl: string, children: SitemapChild[]): string {
+  let xml = XML_DECLARATION
+  xml += '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n'
+
+  for (const child of children) {
+    xml += '  <sitemap>\n'
+    xml += `    <loc>${escapeXml(toAbsoluteUrl(siteUrl, `${SITEMAP_CHILD_ROUTE}/${child.name}.xml`))}</loc>\n`
+    if (child.lastmod) {
+      xml += `    <lastmod>${formatLastmod(child.lastmod)}</lastmod>\n`
+    }
+    xml += '  </sitemap>\n'
+  }
+
+  xml += '</sitemapindex>'
+  return xml
+}
+
+function getLatestLastmod(entries: SitemapEntry[]): string | undefined {
+  let latest: string | undefined
+  for (const { lastmod } of entries) {
+    if (lastmod && (!latest || new Date(lastmod) > new Date(latest))) latest = lastmod
+  }
+  return latest
+}
+
+// Plan of the cached entries (same array until getSitemapEntries regenerates)
+let planCache: { entries: SitemapEntry[]; key: string; plan: SitemapPlan } | null = null
+
+/**
+ * Split entries into child sitemaps (group, then pages of at most maxUrls entries
+ * and SITEMAP_PROTOCOL_MAX_BYTES), and decide whether /sitemap.xml is an index
+ *
+ * @param entries - Sorted entries (getSitemapEntries)
+ */
+export function getSitemapPlan(entries: SitemapEntry[], options: SitemapOptions): SitemapPlan {
+  const key = JSON.stringify(options)
+  if (planCache && planCache.entries === entries && planCache.key === key) {
+    return planCache.plan
+  }
+
+  const groups = new Map<string, SitemapEntry[]>()
+  for (const entry of entries) {
+    // Lowercased: child names are URL segments (fr-CA → fr-ca-site-1)
+    const group =
+      options.groupBy === 'locale' ? `${entry.locale.toLowerCase()}-${entry.type}` : entry.type
+    if (!groups.has(group)) groups.set(group, [])
+    groups.get(group)!.push(entry)
+  }
+
+  const children: SitemapChild[] = []
+  let totalBytes = URLSET_ENVELOPE_BYTES
+
+  for (const group of [...groups.keys()].sort()) {
+    let page: SitemapEntry[] = []
+    let pageBytes = URLSET_ENVELOPE_BYTES
+    let pageNumber = 0
+
+    const flush = () => {
+      if (page.length === 0) return
+      children.push({
+        name: `${group}-${++pageNumber}`,
+        entries: page,
+        lastmod: getLatestLastmod(page)
+      })
+      page = []
+      pageBytes = URLSET_ENVELOPE_BYTES
+    }
+
+    for (const entry of groups.get(group)!) {
+      const bytes = Buffer.byteLength(renderUrl(entry))
+      if (page.length >= options.maxUrls || pageBytes + bytes > SITEMAP_PROTOCOL_MAX_BYTES) {
+        flush()
+      }
+      page.push(entry)
+      pageBytes += bytes
+      totalBytes += bytes
+    }
+    flush()
+  }
+
+  const plan: SitemapPlan = {
+    index: entries.length > options.maxUrls || totalBytes > SITEMAP_PROTOCOL_MAX_BYTES,
+    children
+  }
+  planCache = { entries, key, plan }
+  return plan
+}